@@ -0,0 +1,58 @@
+/**
+ * POST /api/decode
+ *
+ * Extracts the payload hidden in an uploaded image and responds with it as
+ * JSON: `{ kind: "text", text }` for messages, or `{ kind: "file", file }`
+ * with the file contents base64-encoded, along with the technique used and
+ * the number of corrected bytes.
+ *
+ * Multipart fields: image, technique (default "auto"), passphrase and key.
+ */
+
+import {
+	ApiError,
+	errorResponse,
+	readDecodeOptions,
+	readForm,
+	readTechnique,
+	readUpload,
+} from "@/lib/api";
+import { decodePayload } from "@/lib/node";
+
+export const runtime = "nodejs";
+
+/**
+ * Handles a decoding request
+ *
+ * @param request - The multipart request
+ * @returns The decoded payload, or a JSON error
+ */
+export async function POST(request: Request): Promise<Response> {
+	try {
+		const form = await readForm(request);
+		const image = await readUpload(form, "image");
+		if (!image) {
+			throw new ApiError(400, "missing_field", `"image" is required.`);
+		}
+
+		const result = await decodePayload(
+			image.data,
+			readTechnique(form, "auto"),
+			readDecodeOptions(form),
+		);
+
+		if (result.kind === "text") {
+			return Response.json(result);
+		}
+		return Response.json({
+			...result,
+			file: {
+				name: result.file.name,
+				mimeType: result.file.mimeType,
+				data: Buffer.from(result.file.data).toString("base64"),
+			},
+		});
+	} catch (error) {
+		return errorResponse(error);
+	}
+}
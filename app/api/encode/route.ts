@@ -0,0 +1,74 @@
+/**
+ * POST /api/encode
+ *
+ * Hides a message or file in an uploaded cover image and responds with the
+ * stego image: a PNG, or a JPEG for the JPEG technique.
+ *
+ * Multipart fields: image (the cover), then either message (text) or file
+ * (a file to hide), plus technique (default "lsb") and the encoding options
+ * read by readEncodeOptions in lib/api.ts.
+ */
+
+import {
+	ApiError,
+	errorResponse,
+	readEncodeOptions,
+	readForm,
+	readTechnique,
+	readText,
+	readUpload,
+} from "@/lib/api";
+import { encodeFile, encodeMessage } from "@/lib/node";
+
+export const runtime = "nodejs";
+
+/**
+ * Handles an encoding request
+ *
+ * @param request - The multipart request
+ * @returns The stego image, or a JSON error
+ */
+export async function POST(request: Request): Promise<Response> {
+	try {
+		const form = await readForm(request);
+		const cover = await readUpload(form, "image");
+		if (!cover) {
+			throw new ApiError(400, "missing_field", `"image" is required.`);
+		}
+
+		const technique = readTechnique(form, "lsb");
+		const options = readEncodeOptions(form);
+		const message = readText(form, "message", true);
+		const file = await readUpload(form, "file");
+		if ((message === undefined) === (file === null)) {
+			throw new ApiError(
+				400,
+				"missing_field",
+				`Send exactly one of "message" and "file".`,
+			);
+		}
+
+		const encoded = file
+			? await encodeFile(
+					cover.data,
+					{
+						name: file.name,
+						mimeType: file.type || "application/octet-stream",
+						data: file.data,
+					},
+					technique,
+					options,
+				)
+			: await encodeMessage(cover.data, message ?? "", technique, options);
+
+		const extension = encoded.mimeType === "image/jpeg" ? "jpg" : "png";
+		return new Response(encoded.bytes, {
+			headers: {
+				"Content-Type": encoded.mimeType,
+				"Content-Disposition": `attachment; filename="stego.${extension}"`,
+			},
+		});
+	} catch (error) {
+		return errorResponse(error);
+	}
+}
@@ -2,7 +2,7 @@
 
 import type React from "react";
 
-import { useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import {
 	Card,
@@ -23,10 +23,61 @@ import {
 } from "@/components/ui/select";
 import { Label } from "@/components/ui/label";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { Download, FileImage, Upload } from "lucide-react";
-import { encodeMessage, decodeMessage } from "@/lib/steganography";
+import { Download, File as FileIcon, FileImage, Upload } from "lucide-react";
+import {
+	restoreCover,
+	getCapacity,
+	getPayloadSize,
+	analyzeImage,
+	compareImages,
+	getChannelHistograms,
+	loadPixels,
+	renderBitPlane,
+	renderBitPlaneDiff,
+	KEYED_TECHNIQUES,
+	DEFAULT_LSB_CHANNELS,
+	MAX_LSB_BIT_DEPTH,
+	type ChannelHistogram,
+	type DecodedPayload,
+	type ImageComparison,
+	type TechniqueComparison,
+	type Progress,
+} from "@/lib/steganography";
+import {
+	CancelledError,
+	compareInWorker,
+	decodeInWorker,
+	encodeInWorker,
+	type WorkerTask,
+} from "@/lib/worker";
+import { visualizeHistogram } from "@/lib/histogram";
+import { ECC_LEVELS, type HiddenFile, NoPayloadError } from "@/lib/container";
+import { DecryptionError } from "@/lib/crypto";
+import type {
+	SteganalysisReport,
+	SteganalysisVerdict,
+} from "@/lib/steganalysis";
 import Image from "next/image";
 
+const TECHNIQUE_NAMES: Record<string, string> = {
+	lsb: "Least Significant Bit (LSB)",
+	"lsb-improved": "Improved LSB",
+	"lsb-matching": "LSB Matching (±1)",
+	patchwork: "Patchwork Algorithm",
+	histogram: "Histogram Shifting",
+	jpeg: "JPEG DCT (F5)",
+};
+
+// Channels the LSB technique can embed in, by their bit in the channel mask
+const CHANNEL_NAMES = ["Red", "Green", "Blue", "Alpha"];
+
+const VERDICT_MESSAGES: Record<SteganalysisVerdict, string> = {
+	clean: "No evidence of LSB embedding was found.",
+	suspicious:
+		"The image shows weak signs of LSB embedding. It may hold a small payload.",
+	stego: "The image very likely contains data hidden with LSB embedding.",
+};
+
 export default function SteganographyTool() {
 	// eslint-disable-next-line @typescript-eslint/no-unused-vars
 	const [activeTab, setActiveTab] = useState("encode");
@@ -46,9 +97,12 @@ export default function SteganographyTool() {
 				className="max-w-3xl mx-auto"
 				onValueChange={setActiveTab}
 			>
-				<TabsList className="grid w-full grid-cols-2 mb-8">
+				<TabsList className="grid w-full grid-cols-5 mb-8">
 					<TabsTrigger value="encode">Encode Message</TabsTrigger>
 					<TabsTrigger value="decode">Decode Message</TabsTrigger>
+					<TabsTrigger value="analyze">Analyze Image</TabsTrigger>
+					<TabsTrigger value="bit-planes">Bit Planes</TabsTrigger>
+					<TabsTrigger value="compare">Compare</TabsTrigger>
 				</TabsList>
 
 				<TabsContent value="encode">
@@ -58,6 +112,18 @@ export default function SteganographyTool() {
 				<TabsContent value="decode">
 					<DecodeTab />
 				</TabsContent>
+
+				<TabsContent value="analyze">
+					<AnalyzeTab />
+				</TabsContent>
+
+				<TabsContent value="bit-planes">
+					<BitPlaneTab />
+				</TabsContent>
+
+				<TabsContent value="compare">
+					<CompareTab />
+				</TabsContent>
 			</Tabs>
 		</div>
 	);
@@ -66,11 +132,98 @@ export default function SteganographyTool() {
 function EncodeTab() {
 	const [image, setImage] = useState<File | null>(null);
 	const [imagePreview, setImagePreview] = useState<string | null>(null);
+	const [payloadMode, setPayloadMode] = useState("text");
 	const [message, setMessage] = useState("");
+	const [secretFile, setSecretFile] = useState<File | null>(null);
 	const [technique, setTechnique] = useState("lsb");
+	const [passphrase, setPassphrase] = useState("");
+	const [stegoKey, setStegoKey] = useState("");
+	const [compress, setCompress] = useState(true);
+	const [errorCorrection, setErrorCorrection] = useState(0);
+	const [bitDepth, setBitDepth] = useState(1);
+	const [lsbChannels, setLsbChannels] = useState(DEFAULT_LSB_CHANNELS);
 	const [encodedImage, setEncodedImage] = useState<string | null>(null);
+	const [comparison, setComparison] = useState<ImageComparison | null>(null);
 	const [isEncoding, setIsEncoding] = useState(false);
+	const [progress, setProgress] = useState<Progress | null>(null);
+	const taskRef = useRef<WorkerTask<string> | null>(null);
 	const [error, setError] = useState<string | null>(null);
+	const [capacity, setCapacity] = useState<number | null>(null);
+	const [payloadSize, setPayloadSize] = useState(0);
+	const [coverHistograms, setCoverHistograms] = useState<
+		ChannelHistogram[] | null
+	>(null);
+	const [stegoHistograms, setStegoHistograms] = useState<
+		ChannelHistogram[] | null
+	>(null);
+
+	// Recompute the usable capacity whenever the cover image or technique changes
+	useEffect(() => {
+		if (!image) {
+			setCapacity(null);
+			return;
+		}
+
+		let cancelled = false;
+		getCapacity(image, technique, {
+			errorCorrection,
+			bitDepth,
+			channels: lsbChannels,
+		})
+			.then((bytes) => {
+				if (!cancelled) setCapacity(bytes);
+			})
+			.catch(() => {
+				if (!cancelled) setCapacity(null);
+			});
+		return () => {
+			cancelled = true;
+		};
+	}, [image, technique, errorCorrection, bitDepth, lsbChannels]);
+
+	// Compute the cover histograms whenever Histogram Shifting is selected
+	useEffect(() => {
+		setStegoHistograms(null);
+		if (!image || technique !== "histogram") {
+			setCoverHistograms(null);
+			return;
+		}
+
+		let cancelled = false;
+		getChannelHistograms(image)
+			.then((histograms) => {
+				if (!cancelled) setCoverHistograms(histograms);
+			})
+			.catch(() => {
+				if (!cancelled) setCoverHistograms(null);
+			});
+		return () => {
+			cancelled = true;
+		};
+	}, [image, technique]);
+
+	// Recompute the payload size as the user types or picks a file
+	useEffect(() => {
+		const content = payloadMode === "file" ? secretFile : message;
+		if (!content) {
+			setPayloadSize(0);
+			return;
+		}
+
+		let cancelled = false;
+		getPayloadSize(content, { passphrase, compress })
+			.then((bytes) => {
+				if (!cancelled) setPayloadSize(bytes);
+			})
+			.catch(() => {
+				if (!cancelled) setPayloadSize(0);
+			});
+		return () => {
+			cancelled = true;
+		};
+	}, [payloadMode, message, secretFile, passphrase, compress]);
+
+	const isOverCapacity = capacity !== null && payloadSize > capacity;
 
 	const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
 		const file = e.target.files?.[0];
@@ -97,32 +250,73 @@ function EncodeTab() {
 			return;
 		}
 
-		if (!message.trim()) {
+		if (payloadMode === "text" && !message.trim()) {
 			setError("Please enter a message to hide");
 			return;
 		}
 
+		if (payloadMode === "file" && !secretFile) {
+			setError("Please select a file to hide");
+			return;
+		}
+
 		setError(null);
+		setComparison(null);
 		setIsEncoding(true);
 
 		try {
-			const result = await encodeMessage(image, message, technique);
+			const task = encodeInWorker(
+				image,
+				payloadMode === "file" && secretFile ? secretFile : message,
+				technique,
+				{
+					passphrase,
+					key: KEYED_TECHNIQUES.includes(technique) ? stegoKey : undefined,
+					compress,
+					errorCorrection,
+					bitDepth,
+					channels: lsbChannels,
+					onProgress: setProgress,
+				},
+			);
+			taskRef.current = task;
+			const result = await task.promise;
 			setEncodedImage(result);
+
+			// The metrics are informational, so failing to compute them is not an error
+			const stego = await (await fetch(result)).blob();
+			compareImages(image, stego)
+				.then(setComparison)
+				.catch(() => setComparison(null));
+			if (technique === "histogram") {
+				getChannelHistograms(stego)
+					.then(setStegoHistograms)
+					.catch(() => setStegoHistograms(null));
+			}
 		} catch (err) {
+			if (err instanceof CancelledError) return;
 			setError(
 				"Failed to encode message: " +
 					(err instanceof Error ? err.message : String(err)),
 			);
 		} finally {
+			taskRef.current = null;
+			setProgress(null);
 			setIsEncoding(false);
 		}
 	};
 
+	// Stop a running encoding when the tab goes away
+	useEffect(() => () => taskRef.current?.cancel(), []);
+
 	const handleDownload = () => {
 		if (encodedImage) {
 			const link = document.createElement("a");
 			link.href = encodedImage;
-			link.download = `steg-encoded-${Date.now()}.png`;
+			const extension = encodedImage.startsWith("data:image/jpeg")
+				? "jpg"
+				: "png";
+			link.download = `steg-encoded-${Date.now()}.${extension}`;
 			document.body.appendChild(link);
 			link.click();
 			document.body.removeChild(link);
@@ -184,16 +378,50 @@ function EncodeTab() {
 					</div>
 				</div>
 
-				<div className="space-y-2">
-					<Label htmlFor="message">Secret Message</Label>
-					<Textarea
-						id="message"
-						placeholder="Enter the secret message you want to hide..."
-						value={message}
-						onChange={(e) => setMessage(e.target.value)}
-						className="min-h-[100px]"
-					/>
-				</div>
+				<Tabs value={payloadMode} onValueChange={setPayloadMode}>
+					<TabsList className="grid w-full grid-cols-2">
+						<TabsTrigger value="text">Text</TabsTrigger>
+						<TabsTrigger value="file">File</TabsTrigger>
+					</TabsList>
+
+					<TabsContent value="text" className="space-y-2">
+						<Label htmlFor="message">Secret Message</Label>
+						<Textarea
+							id="message"
+							placeholder="Enter the secret message you want to hide..."
+							value={message}
+							onChange={(e) => setMessage(e.target.value)}
+							className="min-h-[100px]"
+						/>
+					</TabsContent>
+
+					<TabsContent value="file" className="space-y-2">
+						<Label htmlFor="secret-file">Secret File</Label>
+						<Button
+							asChild
+							variant="outline"
+							className="w-full h-24 border-dashed"
+						>
+							<label
+								htmlFor="secret-file"
+								className="cursor-pointer flex flex-col items-center justify-center h-full"
+							>
+								<FileIcon className="h-6 w-6 mb-2 text-muted-foreground" />
+								<span className="text-sm text-muted-foreground">
+									{secretFile
+										? `${secretFile.name} (${secretFile.size} bytes)`
+										: "Click to select a file to hide"}
+								</span>
+								<Input
+									id="secret-file"
+									type="file"
+									className="hidden"
+									onChange={(e) => setSecretFile(e.target.files?.[0] ?? null)}
+								/>
+							</label>
+						</Button>
+					</TabsContent>
+				</Tabs>
 
 				<div className="space-y-2">
 					<Label htmlFor="technique">Steganography Technique</Label>
@@ -202,22 +430,152 @@ function EncodeTab() {
 							<SelectValue placeholder="Select technique" />
 						</SelectTrigger>
 						<SelectContent>
-							<SelectItem value="lsb">Least Significant Bit (LSB)</SelectItem>
-							<SelectItem value="lsb-improved">Improved LSB</SelectItem>
-							<SelectItem value="patchwork">Patchwork Algorithm</SelectItem>
-							<SelectItem value="histogram">Histogram Shifting</SelectItem>
+							{Object.entries(TECHNIQUE_NAMES).map(([value, name]) => (
+								<SelectItem key={value} value={value}>
+									{name}
+								</SelectItem>
+							))}
+						</SelectContent>
+					</Select>
+				</div>
+
+				{KEYED_TECHNIQUES.includes(technique) && (
+					<div className="space-y-2">
+						<Label htmlFor="stego-key">Stego Key (optional)</Label>
+						<Input
+							id="stego-key"
+							placeholder="Scatter the message across the image with a key"
+							value={stegoKey}
+							onChange={(e) => setStegoKey(e.target.value)}
+						/>
+					</div>
+				)}
+
+				{technique === "lsb" && (
+					<details className="rounded-md border p-4">
+						<summary className="cursor-pointer text-sm font-medium">
+							Advanced LSB options
+						</summary>
+						<div className="space-y-4 pt-4">
+							<div className="space-y-2">
+								<Label htmlFor="bit-depth">Bits per Channel</Label>
+								<Select
+									value={String(bitDepth)}
+									onValueChange={(value) => setBitDepth(Number(value))}
+								>
+									<SelectTrigger id="bit-depth">
+										<SelectValue placeholder="Select bit depth" />
+									</SelectTrigger>
+									<SelectContent>
+										{Array.from({ length: MAX_LSB_BIT_DEPTH }, (_, i) => (
+											<SelectItem key={i + 1} value={String(i + 1)}>
+												{i + 1} bit{i === 0 ? "" : "s"}
+											</SelectItem>
+										))}
+									</SelectContent>
+								</Select>
+							</div>
+
+							<div className="space-y-2">
+								<Label>Channels</Label>
+								<div className="flex flex-wrap gap-4">
+									{CHANNEL_NAMES.map((name, channel) => (
+										<div key={name} className="flex items-center gap-2">
+											<input
+												id={`channel-${name}`}
+												type="checkbox"
+												className="h-4 w-4 accent-primary"
+												checked={(lsbChannels & (1 << channel)) !== 0}
+												onChange={() =>
+													setLsbChannels(lsbChannels ^ (1 << channel))
+												}
+												disabled={lsbChannels === 1 << channel}
+											/>
+											<Label htmlFor={`channel-${name}`}>{name}</Label>
+										</div>
+									))}
+								</div>
+								<p className="text-sm text-muted-foreground">
+									Hiding data in alpha makes pixels slightly translucent, and
+									browsers that premultiply alpha may then round their colors.
+								</p>
+							</div>
+						</div>
+					</details>
+				)}
+
+				{technique === "histogram" && coverHistograms && (
+					<HistogramPanel before={coverHistograms} after={stegoHistograms} />
+				)}
+
+				<div className="space-y-2">
+					<Label htmlFor="passphrase">Passphrase (optional)</Label>
+					<Input
+						id="passphrase"
+						type="password"
+						placeholder="Encrypt the message with a passphrase"
+						value={passphrase}
+						onChange={(e) => setPassphrase(e.target.value)}
+						autoComplete="new-password"
+					/>
+				</div>
+
+				<div className="space-y-2">
+					<Label htmlFor="error-correction">Error Correction</Label>
+					<Select
+						value={String(errorCorrection)}
+						onValueChange={(value) => setErrorCorrection(Number(value))}
+					>
+						<SelectTrigger id="error-correction">
+							<SelectValue placeholder="Select redundancy" />
+						</SelectTrigger>
+						<SelectContent>
+							<SelectItem value="0">None</SelectItem>
+							{ECC_LEVELS.map((symbols) => (
+								<SelectItem key={symbols} value={String(symbols)}>
+									Reed-Solomon, {symbols} parity bytes per block (fixes up to{" "}
+									{symbols / 2})
+								</SelectItem>
+							))}
 						</SelectContent>
 					</Select>
 				</div>
 
+				<div className="flex items-center gap-2">
+					<input
+						id="compress"
+						type="checkbox"
+						className="h-4 w-4 accent-primary"
+						checked={compress}
+						onChange={(e) => setCompress(e.target.checked)}
+					/>
+					<Label htmlFor="compress">Compress payload before embedding</Label>
+				</div>
+
+				{capacity !== null && (
+					<CapacityMeter used={payloadSize} capacity={capacity} />
+				)}
+
 				<Button
 					onClick={handleEncode}
 					className="w-full"
-					disabled={isEncoding || !image || !message.trim()}
+					disabled={
+						isEncoding ||
+						!image ||
+						isOverCapacity ||
+						(payloadMode === "text" ? !message.trim() : !secretFile)
+					}
 				>
 					{isEncoding ? "Encoding..." : "Encode Message"}
 				</Button>
 
+				{isEncoding && (
+					<TaskProgress
+						progress={progress}
+						onCancel={() => taskRef.current?.cancel()}
+					/>
+				)}
+
 				{encodedImage && (
 					<div className="space-y-4">
 						<div className="border rounded-md p-4">
@@ -231,6 +589,7 @@ function EncodeTab() {
 									height={500}
 								/>
 							</div>
+							{comparison && <QualityReport comparison={comparison} />}
 						</div>
 
 						<Button
@@ -248,12 +607,236 @@ function EncodeTab() {
 	);
 }
 
+function QualityReport({ comparison }: { comparison: ImageComparison }) {
+	const { mse, psnr, ssim, changedPixels } = comparison;
+	const metrics = [
+		{ name: "PSNR", value: formatPSNR(psnr) },
+		{ name: "SSIM", value: ssim.toFixed(5) },
+		{ name: "MSE", value: mse.toFixed(4) },
+		{ name: "Changed Pixels", value: changedPixels.toLocaleString() },
+	];
+
+	return (
+		<div className="space-y-4 pt-4">
+			<div className="grid gap-4 grid-cols-2 sm:grid-cols-4">
+				{metrics.map((metric) => (
+					<div key={metric.name} className="bg-muted rounded-md p-3">
+						<div className="text-xs text-muted-foreground">{metric.name}</div>
+						<div className="font-medium">{metric.value}</div>
+					</div>
+				))}
+			</div>
+			<div className="space-y-2">
+				<h4 className="text-sm font-medium">Changed Pixels</h4>
+				<div className="flex justify-center">
+					<Image
+						src={comparison.heatmap}
+						alt="Heatmap of changed pixels"
+						className="max-h-[300px] w-auto object-contain"
+						style={{ imageRendering: "pixelated" }}
+						width={300}
+						height={500}
+						unoptimized
+					/>
+				</div>
+				<p className="text-sm text-muted-foreground">
+					Changed pixels range from red for a difference of 1 to yellow for
+					differences of 9 or more. Higher PSNR and an SSIM closer to 1 mean the
+					changes are less visible.
+				</p>
+			</div>
+		</div>
+	);
+}
+
+function HistogramPanel({
+	before,
+	after,
+}: {
+	before: ChannelHistogram[];
+	after: ChannelHistogram[] | null;
+}) {
+	// The stego histograms are drawn with the cover's points so the shift shows
+	const images = useMemo(
+		() =>
+			before.map((cover, i) => ({
+				channel: cover.channel,
+				used: cover.used,
+				before: visualizeHistogram(
+					cover.histogram,
+					256,
+					100,
+					cover.peakPoint,
+					cover.zeroPoint,
+				).toDataURL(),
+				after:
+					after &&
+					visualizeHistogram(
+						after[i].histogram,
+						256,
+						100,
+						cover.peakPoint,
+						cover.zeroPoint,
+					).toDataURL(),
+			})),
+		[before, after],
+	);
+
+	return (
+		<div className="rounded-md border p-4 space-y-4">
+			<div>
+				<h3 className="text-sm font-medium">Channel Histograms</h3>
+				<p className="text-sm text-muted-foreground">
+					Peak points are marked in red and zero points in blue.
+				</p>
+			</div>
+			{images.map((image) => (
+				<div key={image.channel} className="space-y-2">
+					<Label>
+						{CHANNEL_NAMES[image.channel]}
+						{!image.used && (
+							<span className="font-normal text-muted-foreground">
+								{" "}
+								(not used, the location map would outweigh its capacity)
+							</span>
+						)}
+					</Label>
+					<div className="grid gap-4 grid-cols-2">
+						<div className="space-y-1">
+							<p className="text-xs text-muted-foreground">Before</p>
+							<Image
+								src={image.before}
+								alt={`${CHANNEL_NAMES[image.channel]} histogram before encoding`}
+								className="w-full h-auto border rounded-md"
+								width={256}
+								height={100}
+								unoptimized
+							/>
+						</div>
+						<div className="space-y-1">
+							<p className="text-xs text-muted-foreground">After</p>
+							{image.after ? (
+								<Image
+									src={image.after}
+									alt={`${CHANNEL_NAMES[image.channel]} histogram after encoding`}
+									className="w-full h-auto border rounded-md"
+									width={256}
+									height={100}
+									unoptimized
+								/>
+							) : (
+								<div className="flex h-full min-h-16 items-center justify-center rounded-md border border-dashed text-xs text-muted-foreground">
+									Encode to see the result
+								</div>
+							)}
+						</div>
+					</div>
+				</div>
+			))}
+		</div>
+	);
+}
+
+function TaskProgress({
+	progress,
+	onCancel,
+}: {
+	progress: Progress | null;
+	onCancel: () => void;
+}) {
+	const percent = Math.round((progress?.fraction ?? 0) * 100);
+
+	return (
+		<div className="flex items-center gap-4">
+			<div className="flex-1 space-y-2">
+				<div className="flex justify-between text-sm">
+					<span>{progress?.stage ?? "Starting"}...</span>
+					<span className="text-muted-foreground">{percent}%</span>
+				</div>
+				<div className="h-2 w-full rounded-full bg-muted overflow-hidden">
+					<div
+						className="h-full bg-primary transition-all"
+						style={{ width: `${percent}%` }}
+					/>
+				</div>
+			</div>
+			<Button variant="outline" size="sm" onClick={onCancel}>
+				Cancel
+			</Button>
+		</div>
+	);
+}
+
+function CapacityMeter({ used, capacity }: { used: number; capacity: number }) {
+	const percent = capacity > 0 ? Math.min(100, (used / capacity) * 100) : 100;
+	const isOver = used > capacity;
+
+	return (
+		<div className="space-y-2">
+			<div className="flex justify-between text-sm">
+				<span>Capacity</span>
+				<span className={isOver ? "text-destructive" : "text-muted-foreground"}>
+					{used.toLocaleString()} / {capacity.toLocaleString()} bytes
+				</span>
+			</div>
+			<div className="h-2 w-full rounded-full bg-muted overflow-hidden">
+				<div
+					className={`h-full ${isOver ? "bg-destructive" : "bg-primary"}`}
+					style={{ width: `${percent}%` }}
+				/>
+			</div>
+			{isOver && (
+				<p className="text-sm text-destructive">
+					The payload is too large for this image with the selected technique.
+				</p>
+			)}
+		</div>
+	);
+}
+
+function DecodeDetails({
+	detectedTechnique,
+	correctedErrors,
+}: {
+	detectedTechnique: string | null;
+	correctedErrors?: number;
+}) {
+	return (
+		<>
+			{detectedTechnique && (
+				<p className="text-sm text-muted-foreground mb-2">
+					Detected technique: {TECHNIQUE_NAMES[detectedTechnique]}
+				</p>
+			)}
+			{correctedErrors !== undefined && (
+				<p className="text-sm text-muted-foreground mb-2">
+					Error correction repaired {correctedErrors} corrupted byte
+					{correctedErrors === 1 ? "" : "s"}
+				</p>
+			)}
+		</>
+	);
+}
+
 function DecodeTab() {
 	const [image, setImage] = useState<File | null>(null);
 	const [imagePreview, setImagePreview] = useState<string | null>(null);
-	const [technique, setTechnique] = useState("lsb");
+	const [technique, setTechnique] = useState("auto");
+	const [passphrase, setPassphrase] = useState("");
+	const [stegoKey, setStegoKey] = useState("");
 	const [decodedMessage, setDecodedMessage] = useState<string | null>(null);
+	const [decodedFile, setDecodedFile] = useState<HiddenFile | null>(null);
+	const [detectedTechnique, setDetectedTechnique] = useState<string | null>(
+		null,
+	);
+	const [correctedErrors, setCorrectedErrors] = useState<number | undefined>(
+		undefined,
+	);
+	const [decodedTechnique, setDecodedTechnique] = useState<string | null>(null);
 	const [isDecoding, setIsDecoding] = useState(false);
+	const [progress, setProgress] = useState<Progress | null>(null);
+	const taskRef = useRef<WorkerTask<DecodedPayload> | null>(null);
+	const [isRestoring, setIsRestoring] = useState(false);
 	const [error, setError] = useState<string | null>(null);
 
 	const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -267,6 +850,8 @@ function DecodeTab() {
 			setImage(file);
 			setError(null);
 			setDecodedMessage(null);
+			setDecodedFile(null);
+			setDecodedTechnique(null);
 
 			const reader = new FileReader();
 			reader.onload = (e) => {
@@ -276,6 +861,46 @@ function DecodeTab() {
 		}
 	};
 
+	const handleDownloadFile = () => {
+		if (decodedFile) {
+			const blob = new Blob([decodedFile.data], {
+				type: decodedFile.mimeType,
+			});
+			const url = URL.createObjectURL(blob);
+			const link = document.createElement("a");
+			link.href = url;
+			link.download = decodedFile.name || `steg-decoded-${Date.now()}`;
+			document.body.appendChild(link);
+			link.click();
+			document.body.removeChild(link);
+			URL.revokeObjectURL(url);
+		}
+	};
+
+	const handleRestore = async () => {
+		if (!image) return;
+
+		setError(null);
+		setIsRestoring(true);
+
+		try {
+			const restoredImage = await restoreCover(image);
+			const link = document.createElement("a");
+			link.href = restoredImage;
+			link.download = `steg-restored-${Date.now()}.png`;
+			document.body.appendChild(link);
+			link.click();
+			document.body.removeChild(link);
+		} catch (err) {
+			setError(
+				"Failed to restore the original image: " +
+					(err instanceof Error ? err.message : String(err)),
+			);
+		} finally {
+			setIsRestoring(false);
+		}
+	};
+
 	const handleDecode = async () => {
 		if (!image) {
 			setError("Please select an image");
@@ -283,25 +908,57 @@ function DecodeTab() {
 		}
 
 		setError(null);
+		setDecodedMessage(null);
+		setDecodedFile(null);
+		setDetectedTechnique(null);
+		setCorrectedErrors(undefined);
+		setDecodedTechnique(null);
 		setIsDecoding(true);
 
 		try {
-			const result = await decodeMessage(image, technique);
-			if (result.trim()) {
-				setDecodedMessage(result);
+			const task = decodeInWorker(image, technique, {
+				passphrase,
+				key:
+					technique === "auto" || KEYED_TECHNIQUES.includes(technique)
+						? stegoKey
+						: undefined,
+				onProgress: setProgress,
+			});
+			taskRef.current = task;
+			const result = await task.promise;
+			if (technique === "auto") {
+				setDetectedTechnique(result.technique);
+			}
+			setCorrectedErrors(result.correctedErrors);
+			setDecodedTechnique(result.technique);
+
+			if (result.kind === "file") {
+				setDecodedFile(result.file);
+			} else if (result.text.trim()) {
+				setDecodedMessage(result.text);
 			} else {
 				setError("No hidden message found or the message is empty");
 			}
 		} catch (err) {
+			if (err instanceof CancelledError) return;
+			if (err instanceof NoPayloadError || err instanceof DecryptionError) {
+				setError(err.message);
+				return;
+			}
 			setError(
 				"Failed to decode message: " +
 					(err instanceof Error ? err.message : String(err)),
 			);
 		} finally {
+			taskRef.current = null;
+			setProgress(null);
 			setIsDecoding(false);
 		}
 	};
 
+	// Stop a running decoding when the tab goes away
+	useEffect(() => () => taskRef.current?.cancel(), []);
+
 	return (
 		<Card>
 			<CardHeader>
@@ -364,14 +1021,40 @@ function DecodeTab() {
 							<SelectValue placeholder="Select technique" />
 						</SelectTrigger>
 						<SelectContent>
-							<SelectItem value="lsb">Least Significant Bit (LSB)</SelectItem>
-							<SelectItem value="lsb-improved">Improved LSB</SelectItem>
-							<SelectItem value="patchwork">Patchwork Algorithm</SelectItem>
-							<SelectItem value="histogram">Histogram Shifting</SelectItem>
+							<SelectItem value="auto">Auto-detect</SelectItem>
+							{Object.entries(TECHNIQUE_NAMES).map(([value, name]) => (
+								<SelectItem key={value} value={value}>
+									{name}
+								</SelectItem>
+							))}
 						</SelectContent>
 					</Select>
 				</div>
 
+				{(technique === "auto" || KEYED_TECHNIQUES.includes(technique)) && (
+					<div className="space-y-2">
+						<Label htmlFor="decode-stego-key">Stego Key (optional)</Label>
+						<Input
+							id="decode-stego-key"
+							placeholder="Enter the stego key used during encoding"
+							value={stegoKey}
+							onChange={(e) => setStegoKey(e.target.value)}
+						/>
+					</div>
+				)}
+
+				<div className="space-y-2">
+					<Label htmlFor="decode-passphrase">Passphrase (optional)</Label>
+					<Input
+						id="decode-passphrase"
+						type="password"
+						placeholder="Enter the passphrase if the message is encrypted"
+						value={passphrase}
+						onChange={(e) => setPassphrase(e.target.value)}
+						autoComplete="current-password"
+					/>
+				</div>
+
 				<Button
 					onClick={handleDecode}
 					className="w-full"
@@ -380,14 +1063,761 @@ function DecodeTab() {
 					{isDecoding ? "Decoding..." : "Decode Message"}
 				</Button>
 
+				{isDecoding && (
+					<TaskProgress
+						progress={progress}
+						onCancel={() => taskRef.current?.cancel()}
+					/>
+				)}
+
 				{decodedMessage && (
 					<div className="border rounded-md p-4">
 						<h3 className="font-medium mb-2">Decoded Message</h3>
+						<DecodeDetails
+							detectedTechnique={detectedTechnique}
+							correctedErrors={correctedErrors}
+						/>
 						<div className="bg-muted p-3 rounded-md whitespace-pre-wrap">
 							{decodedMessage}
 						</div>
 					</div>
 				)}
+
+				{decodedFile && (
+					<div className="space-y-4">
+						<div className="border rounded-md p-4">
+							<h3 className="font-medium mb-2">Decoded File</h3>
+							<DecodeDetails
+								detectedTechnique={detectedTechnique}
+								correctedErrors={correctedErrors}
+							/>
+							<div className="bg-muted p-3 rounded-md flex items-center gap-3">
+								<FileIcon className="h-5 w-5 text-muted-foreground" />
+								<div className="text-sm">
+									<div className="font-medium break-all">
+										{decodedFile.name}
+									</div>
+									<div className="text-muted-foreground">
+										{decodedFile.mimeType} · {decodedFile.data.length} bytes
+									</div>
+								</div>
+							</div>
+						</div>
+
+						<Button
+							onClick={handleDownloadFile}
+							className="w-full"
+							variant="outline"
+						>
+							<Download className="mr-2 h-4 w-4" />
+							Download {decodedFile.name}
+						</Button>
+					</div>
+				)}
+
+				{decodedTechnique === "histogram" &&
+					(decodedMessage || decodedFile) && (
+						<Button
+							onClick={handleRestore}
+							className="w-full"
+							variant="outline"
+							disabled={isRestoring}
+						>
+							<Download className="mr-2 h-4 w-4" />
+							{isRestoring ? "Restoring..." : "Download Original Image"}
+						</Button>
+					)}
+			</CardContent>
+		</Card>
+	);
+}
+
+function formatRate(rate: number): string {
+	return `${(rate * 100).toFixed(1)}%`;
+}
+
+function formatPSNR(psnr: number): string {
+	return Number.isFinite(psnr) ? `${psnr.toFixed(2)} dB` : "∞";
+}
+
+function AnalyzeTab() {
+	const [image, setImage] = useState<File | null>(null);
+	const [imagePreview, setImagePreview] = useState<string | null>(null);
+	const [report, setReport] = useState<SteganalysisReport | null>(null);
+	const [isAnalyzing, setIsAnalyzing] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+
+	const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+		const file = e.target.files?.[0];
+		if (file) {
+			if (!file.type.startsWith("image/")) {
+				setError("Please select a valid image file");
+				return;
+			}
+
+			setImage(file);
+			setError(null);
+			setReport(null);
+
+			const reader = new FileReader();
+			reader.onload = (e) => {
+				setImagePreview(e.target?.result as string);
+			};
+			reader.readAsDataURL(file);
+		}
+	};
+
+	const handleAnalyze = async () => {
+		if (!image) {
+			setError("Please select an image");
+			return;
+		}
+
+		setError(null);
+		setReport(null);
+		setIsAnalyzing(true);
+
+		try {
+			setReport(await analyzeImage(image));
+		} catch (err) {
+			setError(
+				"Failed to analyze image: " +
+					(err instanceof Error ? err.message : String(err)),
+			);
+		} finally {
+			setIsAnalyzing(false);
+		}
+	};
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle>Analyze Image</CardTitle>
+				<CardDescription>
+					Check a suspected image for hidden data with chi-square, RS and sample
+					pair analysis
+				</CardDescription>
+			</CardHeader>
+			<CardContent className="space-y-6">
+				{error && (
+					<Alert variant="destructive">
+						<AlertDescription>{error}</AlertDescription>
+					</Alert>
+				)}
+
+				<div className="space-y-2">
+					<Label htmlFor="analyze-image-upload">Upload Suspected Image</Label>
+					<div className="flex items-center gap-4">
+						<Button
+							asChild
+							variant="outline"
+							className="w-full h-32 border-dashed"
+						>
+							<label
+								htmlFor="analyze-image-upload"
+								className="cursor-pointer flex flex-col items-center justify-center h-full"
+							>
+								<Upload className="h-8 w-8 mb-2 text-muted-foreground" />
+								<span className="text-sm text-muted-foreground">
+									Click to select an image to analyze
+								</span>
+								<Input
+									id="analyze-image-upload"
+									type="file"
+									accept="image/*"
+									className="hidden"
+									onChange={handleImageChange}
+								/>
+							</label>
+						</Button>
+
+						{imagePreview && (
+							<div className="relative h-32 w-32 border rounded-md overflow-hidden">
+								<Image
+									src={imagePreview || "/placeholder.svg"}
+									alt="Preview"
+									className="h-full w-full object-cover"
+									height={128}
+									width={128}
+								/>
+							</div>
+						)}
+					</div>
+				</div>
+
+				<Button
+					onClick={handleAnalyze}
+					className="w-full"
+					disabled={isAnalyzing || !image}
+				>
+					{isAnalyzing ? "Analyzing..." : "Analyze Image"}
+				</Button>
+
+				{report && (
+					<div className="border rounded-md p-4 space-y-4">
+						<h3 className="font-medium">Analysis Results</h3>
+						<Alert
+							variant={report.verdict === "clean" ? "default" : "destructive"}
+						>
+							<AlertDescription>
+								{VERDICT_MESSAGES[report.verdict]} Estimated embedding rate:{" "}
+								{formatRate(report.estimatedRate)}
+							</AlertDescription>
+						</Alert>
+						<div className="overflow-x-auto">
+							<table className="w-full text-sm">
+								<thead>
+									<tr className="border-b text-left">
+										<th className="py-2 font-medium">Channel</th>
+										<th className="py-2 font-medium">Chi-square</th>
+										<th className="py-2 font-medium">RS analysis</th>
+										<th className="py-2 font-medium">Sample pairs</th>
+										<th className="py-2 font-medium">Estimated rate</th>
+									</tr>
+								</thead>
+								<tbody>
+									{report.channels.map((channel) => (
+										<tr
+											key={channel.channel}
+											className="border-b last:border-0"
+										>
+											<td className="py-2">{channel.channel}</td>
+											<td className="py-2">
+												{formatRate(channel.chiSquareProbability)}
+											</td>
+											<td className="py-2">{formatRate(channel.rsRate)}</td>
+											<td className="py-2">{formatRate(channel.spaRate)}</td>
+											<td className="py-2 font-medium">
+												{formatRate(channel.estimatedRate)}
+											</td>
+										</tr>
+									))}
+								</tbody>
+							</table>
+						</div>
+						<p className="text-xs text-muted-foreground">
+							Chi-square shows the probability that the channel holds embedded
+							data; smooth images can score high without hiding anything. RS and
+							sample pair analysis estimate the fraction of values carrying
+							hidden bits. None of these attacks detect LSB matching, patchwork
+							or JPEG embedding.
+						</p>
+					</div>
+				)}
+			</CardContent>
+		</Card>
+	);
+}
+
+function BitPlaneUpload({
+	id,
+	label,
+	hint,
+	onChange,
+}: {
+	id: string;
+	label: string;
+	hint: string;
+	onChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
+}) {
+	return (
+		<div className="space-y-2">
+			<Label htmlFor={id}>{label}</Label>
+			<Button asChild variant="outline" className="w-full h-24 border-dashed">
+				<label
+					htmlFor={id}
+					className="cursor-pointer flex flex-col items-center justify-center h-full"
+				>
+					<Upload className="h-6 w-6 mb-2 text-muted-foreground" />
+					<span className="text-sm text-muted-foreground">{hint}</span>
+					<Input
+						id={id}
+						type="file"
+						accept="image/*"
+						className="hidden"
+						onChange={onChange}
+					/>
+				</label>
+			</Button>
+		</div>
+	);
+}
+
+function BitPlaneView({
+	title,
+	src,
+	width,
+	height,
+}: {
+	title: string;
+	src: string;
+	width: number;
+	height: number;
+}) {
+	return (
+		<div className="space-y-2">
+			<h3 className="text-sm font-medium">{title}</h3>
+			<Image
+				src={src}
+				alt={title}
+				className="w-full h-auto border rounded-md"
+				style={{ imageRendering: "pixelated" }}
+				width={width}
+				height={height}
+				unoptimized
+			/>
+		</div>
+	);
+}
+
+interface BitPlaneViews {
+	stego: string | null;
+	cover: string | null;
+	diff: { image: string; changed: number } | null;
+	diffError: string | null;
+}
+
+function BitPlaneTab() {
+	const [stegoPixels, setStegoPixels] = useState<ImageData | null>(null);
+	const [coverPixels, setCoverPixels] = useState<ImageData | null>(null);
+	const [channel, setChannel] = useState(0);
+	const [bit, setBit] = useState(0);
+	const [error, setError] = useState<string | null>(null);
+
+	const handleImageChange =
+		(setPixels: (pixels: ImageData | null) => void) =>
+		async (e: React.ChangeEvent<HTMLInputElement>) => {
+			const file = e.target.files?.[0];
+			if (file) {
+				if (!file.type.startsWith("image/")) {
+					setError("Please select a valid image file");
+					return;
+				}
+
+				setError(null);
+				try {
+					setPixels(await loadPixels(file));
+				} catch (err) {
+					setPixels(null);
+					setError(
+						"Failed to load image: " +
+							(err instanceof Error ? err.message : String(err)),
+					);
+				}
+			}
+		};
+
+	const [views, setViews] = useState<BitPlaneViews>({
+		stego: null,
+		cover: null,
+		diff: null,
+		diffError: null,
+	});
+
+	// Re-render the planes whenever the images or the selected plane change
+	useEffect(() => {
+		let cancelled = false;
+
+		const render = async (): Promise<BitPlaneViews> => {
+			const stego =
+				stegoPixels && (await renderBitPlane(stegoPixels, channel, bit));
+			const cover =
+				coverPixels && (await renderBitPlane(coverPixels, channel, bit));
+
+			let diff = null;
+			let diffError = null;
+			if (stegoPixels && coverPixels) {
+				try {
+					diff = await renderBitPlaneDiff(
+						coverPixels,
+						stegoPixels,
+						channel,
+						bit,
+					);
+				} catch (err) {
+					diffError = err instanceof Error ? err.message : String(err);
+				}
+			}
+
+			return { stego, cover, diff, diffError };
+		};
+
+		render()
+			.then((rendered) => {
+				if (!cancelled) setViews(rendered);
+			})
+			.catch((err) => {
+				if (!cancelled) {
+					setError(
+						"Failed to render bit planes: " +
+							(err instanceof Error ? err.message : String(err)),
+					);
+				}
+			});
+		return () => {
+			cancelled = true;
+		};
+	}, [stegoPixels, coverPixels, channel, bit]);
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle>Bit-Plane Viewer</CardTitle>
+				<CardDescription>
+					Inspect individual bit planes of an image, and compare them against
+					the original cover image
+				</CardDescription>
+			</CardHeader>
+			<CardContent className="space-y-6">
+				{(error || views.diffError) && (
+					<Alert variant="destructive">
+						<AlertDescription>{error || views.diffError}</AlertDescription>
+					</Alert>
+				)}
+
+				<div className="grid gap-4 sm:grid-cols-2">
+					<BitPlaneUpload
+						id="bit-plane-stego-upload"
+						label="Stego Image"
+						hint="Click to select the image to inspect"
+						onChange={handleImageChange(setStegoPixels)}
+					/>
+					<BitPlaneUpload
+						id="bit-plane-cover-upload"
+						label="Cover Image (optional)"
+						hint="Click to select the original image"
+						onChange={handleImageChange(setCoverPixels)}
+					/>
+				</div>
+
+				<div className="grid gap-4 sm:grid-cols-2">
+					<div className="space-y-2">
+						<Label htmlFor="bit-plane-channel">Channel</Label>
+						<Select
+							value={String(channel)}
+							onValueChange={(value) => setChannel(Number(value))}
+						>
+							<SelectTrigger id="bit-plane-channel">
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								{CHANNEL_NAMES.map((name, index) => (
+									<SelectItem key={name} value={String(index)}>
+										{name}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+					</div>
+
+					<div className="space-y-2">
+						<Label htmlFor="bit-plane-bit">Bit Plane</Label>
+						<Select
+							value={String(bit)}
+							onValueChange={(value) => setBit(Number(value))}
+						>
+							<SelectTrigger id="bit-plane-bit">
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								{Array.from({ length: 8 }, (_, index) => (
+									<SelectItem key={index} value={String(index)}>
+										Bit {index}
+										{index === 0 ? " (least significant)" : ""}
+										{index === 7 ? " (most significant)" : ""}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+					</div>
+				</div>
+
+				{(views.stego || views.cover) && (
+					<div className="grid gap-4 sm:grid-cols-2">
+						{views.cover && coverPixels && (
+							<BitPlaneView
+								title="Cover"
+								src={views.cover}
+								width={coverPixels.width}
+								height={coverPixels.height}
+							/>
+						)}
+						{views.stego && stegoPixels && (
+							<BitPlaneView
+								title="Stego"
+								src={views.stego}
+								width={stegoPixels.width}
+								height={stegoPixels.height}
+							/>
+						)}
+					</div>
+				)}
+
+				{views.diff && stegoPixels && (
+					<div className="space-y-2">
+						<BitPlaneView
+							title="XOR Difference"
+							src={views.diff.image}
+							width={stegoPixels.width}
+							height={stegoPixels.height}
+						/>
+						<p className="text-sm text-muted-foreground">
+							{views.diff.changed.toLocaleString()} of{" "}
+							{(stegoPixels.width * stegoPixels.height).toLocaleString()} pixels
+							differ in this bit plane
+						</p>
+					</div>
+				)}
+			</CardContent>
+		</Card>
+	);
+}
+
+function CompareTab() {
+	const [image, setImage] = useState<File | null>(null);
+	const [imagePreview, setImagePreview] = useState<string | null>(null);
+	const [message, setMessage] = useState("");
+	const [stegoKey, setStegoKey] = useState("");
+	const [results, setResults] = useState<TechniqueComparison[] | null>(null);
+	const [isComparing, setIsComparing] = useState(false);
+	const [progress, setProgress] = useState<Progress | null>(null);
+	const [error, setError] = useState<string | null>(null);
+	const taskRef = useRef<WorkerTask<TechniqueComparison[]> | null>(null);
+
+	const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+		const file = e.target.files?.[0];
+		if (file) {
+			if (!file.type.startsWith("image/")) {
+				setError("Please select a valid image file");
+				return;
+			}
+
+			setImage(file);
+			setError(null);
+			setResults(null);
+
+			const reader = new FileReader();
+			reader.onload = (e) => {
+				setImagePreview(e.target?.result as string);
+			};
+			reader.readAsDataURL(file);
+		}
+	};
+
+	const handleCompare = async () => {
+		if (!image) {
+			setError("Please select an image");
+			return;
+		}
+
+		if (!message.trim()) {
+			setError("Please enter a message to hide");
+			return;
+		}
+
+		setError(null);
+		setResults(null);
+		setIsComparing(true);
+
+		try {
+			const task = compareInWorker(
+				image,
+				message,
+				Object.keys(TECHNIQUE_NAMES),
+				{
+					key: stegoKey || undefined,
+					compress: true,
+					onProgress: setProgress,
+				},
+			);
+			taskRef.current = task;
+			setResults(await task.promise);
+		} catch (err) {
+			if (err instanceof CancelledError) return;
+			setError(
+				"Failed to compare techniques: " +
+					(err instanceof Error ? err.message : String(err)),
+			);
+		} finally {
+			taskRef.current = null;
+			setProgress(null);
+			setIsComparing(false);
+		}
+	};
+
+	// Stop a running comparison when the tab goes away
+	useEffect(() => () => taskRef.current?.cancel(), []);
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle>Compare Techniques</CardTitle>
+				<CardDescription>
+					Hide the same message with every technique and compare capacity, image
+					quality, speed and detectability
+				</CardDescription>
+			</CardHeader>
+			<CardContent className="space-y-6">
+				{error && (
+					<Alert variant="destructive">
+						<AlertDescription>{error}</AlertDescription>
+					</Alert>
+				)}
+
+				<div className="space-y-2">
+					<Label htmlFor="compare-image-upload">Upload Cover Image</Label>
+					<div className="flex items-center gap-4">
+						<Button
+							asChild
+							variant="outline"
+							className="w-full h-32 border-dashed"
+						>
+							<label
+								htmlFor="compare-image-upload"
+								className="cursor-pointer flex flex-col items-center justify-center h-full"
+							>
+								<Upload className="h-8 w-8 mb-2 text-muted-foreground" />
+								<span className="text-sm text-muted-foreground">
+									Click to select an image
+								</span>
+								<Input
+									id="compare-image-upload"
+									type="file"
+									accept="image/*"
+									className="hidden"
+									onChange={handleImageChange}
+								/>
+							</label>
+						</Button>
+
+						{imagePreview && (
+							<div className="relative h-32 w-32 border rounded-md overflow-hidden">
+								<Image
+									src={imagePreview || "/placeholder.svg"}
+									alt="Preview"
+									className="h-full w-full object-cover"
+									height={128}
+									width={128}
+								/>
+							</div>
+						)}
+					</div>
+				</div>
+
+				<div className="space-y-2">
+					<Label htmlFor="compare-message">Secret Message</Label>
+					<Textarea
+						id="compare-message"
+						placeholder="Enter the message to hide with every technique"
+						value={message}
+						onChange={(e) => setMessage(e.target.value)}
+						rows={4}
+					/>
+				</div>
+
+				<div className="space-y-2">
+					<Label htmlFor="compare-stego-key">Stego Key (optional)</Label>
+					<Input
+						id="compare-stego-key"
+						placeholder="Used by the techniques that support a key"
+						value={stegoKey}
+						onChange={(e) => setStegoKey(e.target.value)}
+					/>
+				</div>
+
+				<Button
+					onClick={handleCompare}
+					className="w-full"
+					disabled={isComparing || !image || !message.trim()}
+				>
+					{isComparing ? "Comparing..." : "Compare Techniques"}
+				</Button>
+
+				{isComparing && (
+					<TaskProgress
+						progress={progress}
+						onCancel={() => taskRef.current?.cancel()}
+					/>
+				)}
+
+				{results && (
+					<div className="overflow-x-auto">
+						<table className="w-full text-sm">
+							<thead>
+								<tr className="border-b text-left">
+									<th className="py-2 pr-2 font-medium">Technique</th>
+									<th className="py-2 pr-2 font-medium">Result</th>
+									<th className="py-2 pr-2 font-medium">Capacity</th>
+									<th className="py-2 pr-2 font-medium">PSNR</th>
+									<th className="py-2 pr-2 font-medium">SSIM</th>
+									<th className="py-2 pr-2 font-medium">Time</th>
+									<th className="py-2 font-medium">Steganalysis</th>
+								</tr>
+							</thead>
+							<tbody>
+								{results.map((result) => (
+									<tr
+										key={result.technique}
+										className="border-b last:border-0 align-middle"
+									>
+										<td className="py-2 pr-2 font-medium">
+											{TECHNIQUE_NAMES[result.technique]}
+										</td>
+										<td className="py-2 pr-2">
+											{result.image ? (
+												<a
+													href={result.image}
+													download={`steg-${result.technique}-${Date.now()}.${
+														result.image.startsWith("data:image/jpeg")
+															? "jpg"
+															: "png"
+													}`}
+												>
+													<Image
+														src={result.image}
+														alt={`Encoded with ${TECHNIQUE_NAMES[result.technique]}`}
+														className="h-16 w-16 rounded-md border object-cover"
+														width={64}
+														height={64}
+														unoptimized
+													/>
+												</a>
+											) : (
+												<span className="text-destructive">{result.error}</span>
+											)}
+										</td>
+										<td className="py-2 pr-2">
+											{result.capacity !== undefined
+												? `${result.capacity.toLocaleString()} bytes`
+												: "–"}
+										</td>
+										<td className="py-2 pr-2">
+											{result.quality ? formatPSNR(result.quality.psnr) : "–"}
+										</td>
+										<td className="py-2 pr-2">
+											{result.quality ? result.quality.ssim.toFixed(5) : "–"}
+										</td>
+										<td className="py-2 pr-2">
+											{result.encodingTime !== undefined
+												? `${Math.round(result.encodingTime)} ms`
+												: "–"}
+										</td>
+										<td className="py-2">
+											{result.steganalysis
+												? `${formatRate(result.steganalysis.estimatedRate)} (${result.steganalysis.verdict})`
+												: "–"}
+										</td>
+									</tr>
+								))}
+							</tbody>
+						</table>
+						<p className="text-xs text-muted-foreground pt-2">
+							Steganalysis shows the embedding rate estimated by RS and sample
+							pair analysis, so lower is less detectable. Click a thumbnail to
+							download the encoded image.
+						</p>
+					</div>
+				)}
 			</CardContent>
 		</Card>
 	);
@@ -0,0 +1,446 @@
+/**
+ * steg Command-Line Interface
+ *
+ * Embeds and extracts messages and files without a browser, on top of the
+ * Node adapter in lib/node.ts. Run it with `pnpm steg <command> [options]`;
+ * see USAGE below for the commands.
+ */
+
+import { readFile, writeFile } from "node:fs/promises";
+import { basename, extname } from "node:path";
+import { parseArgs } from "node:util";
+import { ECC_LEVELS, NoPayloadError } from "@/lib/container";
+import {
+	CapacityError,
+	type EncodeOptions,
+	MAX_LSB_BIT_DEPTH,
+	OptionError,
+	parseEncodeOptions,
+	parseTechnique,
+	TECHNIQUES,
+} from "@/lib/core";
+import { DecryptionError } from "@/lib/crypto";
+import {
+	analyzeImage,
+	decodePayload,
+	encodeFile,
+	encodeMessage,
+	getCapacity,
+} from "@/lib/node";
+
+const USAGE = `Usage: steg <command> [options]
+
+Commands:
+  encode <cover> [-o <output>]  Hide a message or file in an image
+  decode <image>                Extract a hidden message or file
+  capacity <image>              Show how many bytes an image can hold
+  analyze <image>               Estimate whether an image hides LSB data
+
+Options:
+  -t, --technique <name>    Technique to use (default: lsb, or auto when
+                            decoding): ${TECHNIQUES.join(", ")}
+  -m, --message <text>      Message to hide (default: read from stdin)
+      --message-file <path> Read the message to hide from a file
+      --file <path>         Hide a file instead of a message
+      --mime-type <type>    MIME type stored with --file (default: guessed
+                            from the file extension)
+  -o, --output <path>       Where to write the stego image, or the extracted
+                            file when decoding (default: its stored name,
+                            which must not exist yet)
+  -p, --passphrase <text>   Encrypt or decrypt the payload
+  -k, --key <text>          Stego key that scatters the embedded bits
+      --compress            Compress the payload before embedding
+      --ecc <symbols>       Reed-Solomon parity bytes per codeword
+                            (${ECC_LEVELS.join(", ")})
+      --bit-depth <bits>    Bits per channel for the LSB technique
+                            (1-${MAX_LSB_BIT_DEPTH})
+      --channels <rgba>     Channels for the LSB technique, e.g. rgb or rgba
+      --json                Print capacity and analysis results as JSON
+  -h, --help                Show this help
+
+Exit codes:
+  0  Success
+  1  Unexpected error
+  2  Invalid usage
+  3  No hidden payload found
+  4  Wrong or missing passphrase
+  5  Payload too large for the image
+`;
+
+// MIME types stored for hidden files, by lowercase extension
+const MIME_TYPES: Record<string, string> = {
+	".csv": "text/csv",
+	".gif": "image/gif",
+	".gz": "application/gzip",
+	".html": "text/html",
+	".jpeg": "image/jpeg",
+	".jpg": "image/jpeg",
+	".json": "application/json",
+	".md": "text/markdown",
+	".mp3": "audio/mpeg",
+	".mp4": "video/mp4",
+	".pdf": "application/pdf",
+	".png": "image/png",
+	".svg": "image/svg+xml",
+	".txt": "text/plain",
+	".webp": "image/webp",
+	".zip": "application/zip",
+};
+
+// Name given to an extracted file whose stored name cannot be used
+const FALLBACK_FILE_NAME = "hidden-file";
+
+// Command-line flag of each option parsed by the core
+const OPTION_FLAGS: Record<string, string> = {
+	technique: "--technique",
+	errorCorrection: "--ecc",
+	bitDepth: "--bit-depth",
+	channels: "--channels",
+};
+
+// Process exit codes, documented in USAGE
+const EXIT_ERROR = 1;
+const EXIT_USAGE = 2;
+const EXIT_NO_PAYLOAD = 3;
+const EXIT_DECRYPTION = 4;
+const EXIT_CAPACITY = 5;
+
+/**
+ * Thrown when the command line is invalid
+ */
+class UsageError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "UsageError";
+	}
+}
+
+type Values = ReturnType<typeof parseCommandLine>["values"];
+
+/**
+ * Parses the command line options
+ *
+ * @param args - The arguments after the script name
+ * @returns The option values and the positional arguments
+ * @throws UsageError if an option is unknown or missing its value
+ */
+function parseCommandLine(args: string[]) {
+	try {
+		return parseArgs({
+			args,
+			allowPositionals: true,
+			options: {
+				technique: { type: "string", short: "t" },
+				message: { type: "string", short: "m" },
+				"message-file": { type: "string" },
+				file: { type: "string" },
+				"mime-type": { type: "string" },
+				output: { type: "string", short: "o" },
+				passphrase: { type: "string", short: "p" },
+				key: { type: "string", short: "k" },
+				compress: { type: "boolean" },
+				ecc: { type: "string" },
+				"bit-depth": { type: "string" },
+				channels: { type: "string" },
+				json: { type: "boolean" },
+				help: { type: "boolean", short: "h" },
+			},
+		});
+	} catch (error) {
+		throw new UsageError(
+			error instanceof Error ? error.message : String(error),
+		);
+	}
+}
+
+/**
+ * Runs the CLI
+ *
+ * @param args - The arguments after the script name
+ * @returns A Promise that resolves to the process exit code
+ */
+async function main(args: string[]): Promise<number> {
+	try {
+		const { values, positionals } = parseCommandLine(args);
+		const [command, image, ...extra] = positionals;
+
+		if (values.help || !command) {
+			process.stdout.write(USAGE);
+			return values.help ? 0 : EXIT_USAGE;
+		}
+		if (!image) {
+			throw new UsageError(`Missing image path for ${command}`);
+		}
+		if (extra.length > 0) {
+			throw new UsageError(`Unexpected argument: ${extra[0]}`);
+		}
+
+		switch (command) {
+			case "encode":
+				await runEncode(image, values);
+				break;
+			case "decode":
+				await runDecode(image, values);
+				break;
+			case "capacity":
+				await runCapacity(image, values);
+				break;
+			case "analyze":
+				await runAnalyze(image, values);
+				break;
+			default:
+				throw new UsageError(`Unknown command: ${command}`);
+		}
+		return 0;
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		process.stderr.write(`steg: ${message}\n`);
+
+		if (error instanceof UsageError) {
+			process.stderr.write("Run steg --help for usage.\n");
+			return EXIT_USAGE;
+		}
+		if (error instanceof NoPayloadError) return EXIT_NO_PAYLOAD;
+		if (error instanceof DecryptionError) return EXIT_DECRYPTION;
+		if (error instanceof CapacityError) return EXIT_CAPACITY;
+		return EXIT_ERROR;
+	}
+}
+
+/**
+ * Hides a message or file in a cover image and writes the stego image
+ *
+ * @param coverPath - The path of the cover image
+ * @param values - The parsed options
+ */
+async function runEncode(coverPath: string, values: Values): Promise<void> {
+	const technique = getTechnique(values, "lsb");
+	const options = getEncodeOptions(values);
+	const cover = await readFile(coverPath);
+
+	const sources = [values.message, values["message-file"], values.file];
+	if (sources.filter((source) => source !== undefined).length > 1) {
+		throw new UsageError(
+			"Use only one of --message, --message-file and --file",
+		);
+	}
+	if (values["mime-type"] !== undefined && values.file === undefined) {
+		throw new UsageError("--mime-type can only be used with --file");
+	}
+
+	let encoded;
+	if (values.file !== undefined) {
+		encoded = await encodeFile(
+			cover,
+			{
+				name: basename(values.file),
+				mimeType:
+					values["mime-type"] ??
+					MIME_TYPES[extname(values.file).toLowerCase()] ??
+					"application/octet-stream",
+				data: await readFile(values.file),
+			},
+			technique,
+			options,
+		);
+	} else {
+		const message =
+			values.message ??
+			(values["message-file"] !== undefined
+				? await readFile(values["message-file"], "utf8")
+				: await readStdin());
+		encoded = await encodeMessage(cover, message, technique, options);
+	}
+
+	const extension = encoded.mimeType === "image/jpeg" ? ".jpg" : ".png";
+	const output =
+		values.output ??
+		`${basename(coverPath, extname(coverPath))}.stego${extension}`;
+	await writeFile(output, encoded.bytes);
+	process.stderr.write(`Wrote ${output}\n`);
+}
+
+/**
+ * Extracts a hidden payload, printing a message or writing a file
+ *
+ * @param imagePath - The path of the stego image
+ * @param values - The parsed options
+ */
+async function runDecode(imagePath: string, values: Values): Promise<void> {
+	const result = await decodePayload(
+		await readFile(imagePath),
+		getTechnique(values, "auto"),
+		{ passphrase: values.passphrase, key: values.key },
+	);
+
+	if (result.kind === "text") {
+		if (values.output !== undefined) {
+			await writeFile(values.output, result.text);
+		} else {
+			process.stdout.write(result.text);
+		}
+		return;
+	}
+
+	if (values.output !== undefined) {
+		await writeFile(values.output, result.file.data);
+		process.stderr.write(`Wrote ${values.output} (${result.file.mimeType})\n`);
+		return;
+	}
+
+	// The stored name comes from the image, so only its base name is used and
+	// an existing file is never overwritten
+	const name = basename(result.file.name);
+	const output =
+		name && name !== "." && name !== ".." ? name : FALLBACK_FILE_NAME;
+	try {
+		await writeFile(output, result.file.data, { flag: "wx" });
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException).code === "EEXIST") {
+			throw new Error(
+				`${output} already exists. Use --output to choose where to write the hidden file.`,
+			);
+		}
+		throw error;
+	}
+	process.stderr.write(`Wrote ${output} (${result.file.mimeType})\n`);
+}
+
+/**
+ * Prints how many payload bytes an image can hold with one or all techniques
+ *
+ * @param imagePath - The path of the cover image
+ * @param values - The parsed options
+ */
+async function runCapacity(imagePath: string, values: Values): Promise<void> {
+	const image = await readFile(imagePath);
+	const options = getEncodeOptions(values);
+	const techniques = values.technique
+		? [getTechnique(values, "lsb")]
+		: TECHNIQUES;
+
+	const capacities: Record<string, number | null> = {};
+	for (const technique of techniques) {
+		try {
+			capacities[technique] = await getCapacity(image, technique, options);
+		} catch (error) {
+			// e.g. a technique that needs pixels on an image that cannot be decoded
+			if (techniques.length === 1) throw error;
+			capacities[technique] = null;
+		}
+	}
+
+	if (values.json) {
+		process.stdout.write(`${JSON.stringify(capacities, null, 2)}\n`);
+		return;
+	}
+	for (const [technique, capacity] of Object.entries(capacities)) {
+		process.stdout.write(
+			`${technique.padEnd(14)}${capacity === null ? "unsupported" : `${capacity} bytes`}\n`,
+		);
+	}
+}
+
+/**
+ * Prints the steganalysis report of an image
+ *
+ * @param imagePath - The path of the image to analyze
+ * @param values - The parsed options
+ */
+async function runAnalyze(imagePath: string, values: Values): Promise<void> {
+	const report = await analyzeImage(await readFile(imagePath));
+
+	if (values.json) {
+		process.stdout.write(`${JSON.stringify(report, null, 2)}\n`);
+		return;
+	}
+
+	const percent = (rate: number) => `${(rate * 100).toFixed(1)}%`.padStart(10);
+	process.stdout.write(
+		`${"Channel".padEnd(8)}${["Chi-sq", "RS", "SPA", "Estimate"].map((title) => title.padStart(10)).join("")}\n`,
+	);
+	for (const channel of report.channels) {
+		process.stdout.write(
+			`${channel.channel.padEnd(8)}${percent(channel.chiSquareProbability)}${percent(channel.rsRate)}${percent(channel.spaRate)}${percent(channel.estimatedRate)}\n`,
+		);
+	}
+	process.stdout.write(
+		`\nEstimated embedding rate: ${percent(report.estimatedRate).trim()}\nVerdict: ${report.verdict}\n`,
+	);
+}
+
+/**
+ * Reads the technique option
+ *
+ * @param values - The parsed options
+ * @param fallback - The technique to use when none is given
+ * @returns The technique
+ * @throws UsageError if the technique is unknown
+ */
+function getTechnique(values: Values, fallback: string): string {
+	return withUsageErrors(() =>
+		parseTechnique(values.technique ?? fallback, fallback === "auto"),
+	);
+}
+
+/**
+ * Builds the encoding options from the parsed options
+ *
+ * @param values - The parsed options
+ * @returns The encoding options
+ * @throws UsageError if an option is invalid
+ */
+function getEncodeOptions(values: Values): EncodeOptions {
+	return withUsageErrors(() =>
+		parseEncodeOptions({
+			passphrase: values.passphrase,
+			key: values.key,
+			compress: values.compress,
+			errorCorrection: values.ecc,
+			bitDepth: values["bit-depth"],
+			channels: values.channels,
+		}),
+	);
+}
+
+/**
+ * Runs an option parser, turning its errors into usage errors
+ *
+ * @param parse - The parser to run
+ * @returns The result of the parser
+ * @throws UsageError naming the flag of the invalid option
+ */
+function withUsageErrors<T>(parse: () => T): T {
+	try {
+		return parse();
+	} catch (error) {
+		if (!(error instanceof OptionError)) throw error;
+		throw new UsageError(
+			`${OPTION_FLAGS[error.option] ?? error.option}: ${error.message}`,
+		);
+	}
+}
+
+/**
+ * Reads all of standard input as text
+ *
+ * @returns A Promise that resolves to the text
+ * @throws UsageError if standard input is a terminal, as no message was piped in
+ */
+async function readStdin(): Promise<string> {
+	if (process.stdin.isTTY) {
+		throw new UsageError(
+			"No message given. Use --message, --message-file or pipe it to stdin",
+		);
+	}
+
+	const chunks: Buffer[] = [];
+	for await (const chunk of process.stdin) {
+		chunks.push(chunk);
+	}
+	return Buffer.concat(chunks).toString("utf8");
+}
+
+main(process.argv.slice(2)).then((code) => {
+	process.exitCode = code;
+});
@@ -0,0 +1,227 @@
+/**
+ * HTTP API Helpers
+ *
+ * Request parsing and error mapping shared by the route handlers under
+ * app/api, which run the Node adapter on the server. Requests are multipart
+ * forms; failures are answered with a JSON body of the form
+ * `{ "error": { "code": "...", "message": "...", ... } }`.
+ */
+
+import { CorruptPayloadError, NoPayloadError } from "@/lib/container";
+import {
+	CapacityError,
+	OptionError,
+	parseEncodeOptions,
+	parseTechnique,
+	type DecodeOptions,
+	type EncodeOptions,
+} from "@/lib/core";
+import { DecryptionError } from "@/lib/crypto";
+import { JpegError } from "@/lib/jpeg";
+import { UnsupportedImageError } from "@/lib/node";
+import { PngError } from "@/lib/png";
+
+/**
+ * Thrown when a request is invalid, carrying the HTTP status to answer with
+ */
+export class ApiError extends Error {
+	constructor(
+		public readonly status: number,
+		public readonly code: string,
+		message: string,
+	) {
+		super(message);
+		this.name = "ApiError";
+	}
+}
+
+/**
+ * Reads the multipart form of a request
+ *
+ * @param request - The incoming request
+ * @returns A Promise that resolves to the form data
+ * @throws ApiError if the body is not a multipart or URL-encoded form
+ */
+export async function readForm(request: Request): Promise<FormData> {
+	try {
+		return await request.formData();
+	} catch {
+		throw new ApiError(
+			415,
+			"invalid_form",
+			"Send the request as multipart/form-data.",
+		);
+	}
+}
+
+/**
+ * Reads an uploaded file from a form
+ *
+ * @param form - The form data
+ * @param name - The name of the form field
+ * @returns A Promise that resolves to the file, or null if the field is missing
+ * @throws ApiError if the field is not a file
+ */
+export async function readUpload(
+	form: FormData,
+	name: string,
+): Promise<{ name: string; type: string; data: Uint8Array } | null> {
+	const value = form.get(name);
+	if (value === null) return null;
+	if (typeof value === "string") {
+		throw new ApiError(400, "invalid_field", `"${name}" must be a file.`);
+	}
+	return {
+		name: value.name,
+		type: value.type,
+		data: new Uint8Array(await value.arrayBuffer()),
+	};
+}
+
+/**
+ * Reads a text field from a form
+ *
+ * @param form - The form data
+ * @param name - The name of the form field
+ * @param allowEmpty - Whether an empty value is kept rather than treated as missing
+ * @returns The value, or undefined if the field is missing, or empty and allowEmpty is false
+ * @throws ApiError if the field is a file
+ */
+export function readText(
+	form: FormData,
+	name: string,
+	allowEmpty = false,
+): string | undefined {
+	const value = form.get(name);
+	if (value === null || (value === "" && !allowEmpty)) return undefined;
+	if (typeof value !== "string") {
+		throw new ApiError(400, "invalid_field", `"${name}" must be text.`);
+	}
+	return value;
+}
+
+/**
+ * Reads the technique field of a form
+ *
+ * @param form - The form data
+ * @param fallback - The technique to use when none is given
+ * @returns The technique
+ * @throws OptionError if the technique is unknown
+ */
+export function readTechnique(form: FormData, fallback: string): string {
+	return parseTechnique(
+		readText(form, "technique") ?? fallback,
+		fallback === "auto",
+	);
+}
+
+/**
+ * Reads the encoding options of a form
+ *
+ * Fields: passphrase, key, compress ("true" or "false"), errorCorrection
+ * (parity bytes per codeword), bitDepth and channels (letters such as "rgb").
+ *
+ * @param form - The form data
+ * @returns The encoding options
+ * @throws ApiError if compress is not a boolean
+ * @throws OptionError if another option is invalid
+ */
+export function readEncodeOptions(form: FormData): EncodeOptions {
+	const compress = readText(form, "compress");
+	if (compress !== undefined && compress !== "true" && compress !== "false") {
+		throw new ApiError(
+			400,
+			"invalid_field",
+			`"compress" must be true or false.`,
+		);
+	}
+
+	return parseEncodeOptions({
+		...readDecodeOptions(form),
+		compress: compress === "true",
+		errorCorrection: readText(form, "errorCorrection"),
+		bitDepth: readText(form, "bitDepth"),
+		channels: readText(form, "channels"),
+	});
+}
+
+/**
+ * Reads the decoding options of a form
+ *
+ * Fields: passphrase and key.
+ *
+ * @param form - The form data
+ * @returns The decoding options
+ * @throws ApiError if an option is a file
+ */
+export function readDecodeOptions(form: FormData): DecodeOptions {
+	return {
+		passphrase: readText(form, "passphrase"),
+		key: readText(form, "key"),
+	};
+}
+
+/**
+ * Builds the JSON response for an error thrown while handling a request
+ *
+ * Problems with the request or the uploaded image map to 4xx responses;
+ * anything else is logged and answered with a generic 500.
+ *
+ * @param error - The error that was thrown
+ * @returns The error response
+ */
+export function errorResponse(error: unknown): Response {
+	if (error instanceof ApiError) {
+		return errorJson(error.status, error.code, error.message);
+	}
+	if (error instanceof OptionError) {
+		return errorJson(
+			400,
+			error.option === "technique" ? "unknown_technique" : "invalid_field",
+			error.message,
+			{ field: error.option },
+		);
+	}
+	if (error instanceof CapacityError) {
+		return errorJson(422, "message_too_large", error.message, {
+			required: error.required,
+			available: error.available,
+		});
+	}
+	if (error instanceof CorruptPayloadError) {
+		return errorJson(422, "corrupt_payload", error.message);
+	}
+	if (error instanceof NoPayloadError) {
+		return errorJson(422, "no_payload", error.message);
+	}
+	if (error instanceof DecryptionError) {
+		return errorJson(422, "decryption_failed", error.message);
+	}
+	if (error instanceof UnsupportedImageError) {
+		return errorJson(415, "unsupported_image", error.message);
+	}
+	if (error instanceof PngError || error instanceof JpegError) {
+		return errorJson(400, "invalid_image", error.message);
+	}
+
+	console.error(error);
+	return errorJson(500, "internal_error", "Something went wrong.");
+}
+
+/**
+ * Builds a JSON error response
+ *
+ * @param status - The HTTP status
+ * @param code - A stable, machine-readable error code
+ * @param message - A human-readable description
+ * @param details - Extra fields to include in the error object
+ * @returns The error response
+ */
+function errorJson(
+	status: number,
+	code: string,
+	message: string,
+	details: Record<string, unknown> = {},
+): Response {
+	return Response.json({ error: { code, message, ...details } }, { status });
+}
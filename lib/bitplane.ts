@@ -0,0 +1,88 @@
+/**
+ * Bit-Plane Rendering
+ *
+ * Turns single bit planes of an image into black and white images, and
+ * compares the same bit plane of two images, for inspecting where data was
+ * embedded.
+ */
+
+import { checkSameSize } from "@/lib/metrics";
+
+// Rendered colors for set and differing bits, and for clear and equal bits
+const ON = 255;
+const OFF = 0;
+
+/**
+ * Renders one bit plane of a channel as a black and white image
+ *
+ * @param data - The RGBA image data
+ * @param channel - The channel offset (0 = red, 1 = green, 2 = blue, 3 = alpha)
+ * @param bit - The bit to render (0 = least significant, 7 = most significant)
+ * @returns RGBA image data that is white where the bit is set and black elsewhere
+ */
+export function extractBitPlane(
+	data: Uint8ClampedArray,
+	channel: number,
+	bit: number,
+): Uint8ClampedArray {
+	validatePlane(channel, bit);
+
+	const plane = new Uint8ClampedArray(data.length);
+	for (let i = 0; i < data.length; i += 4) {
+		const value = (data[i + channel] >> bit) & 1 ? ON : OFF;
+		plane[i] = value;
+		plane[i + 1] = value;
+		plane[i + 2] = value;
+		plane[i + 3] = 255;
+	}
+	return plane;
+}
+
+/**
+ * Renders where one bit plane of two images differs
+ *
+ * @param cover - The RGBA data of the cover image
+ * @param stego - The RGBA data of the stego image, with the same dimensions
+ * @param channel - The channel offset (0 = red, 1 = green, 2 = blue, 3 = alpha)
+ * @param bit - The bit to compare (0 = least significant, 7 = most significant)
+ * @returns RGBA image data that is white where the bits differ, and the number of differing pixels
+ * @throws Error if the images have different sizes
+ */
+export function diffBitPlanes(
+	cover: Uint8ClampedArray,
+	stego: Uint8ClampedArray,
+	channel: number,
+	bit: number,
+): { plane: Uint8ClampedArray; changed: number } {
+	validatePlane(channel, bit);
+	checkSameSize(cover, stego);
+
+	const plane = new Uint8ClampedArray(cover.length);
+	let changed = 0;
+	for (let i = 0; i < cover.length; i += 4) {
+		const differs = ((cover[i + channel] ^ stego[i + channel]) >> bit) & 1;
+		const value = differs ? ON : OFF;
+		plane[i] = value;
+		plane[i + 1] = value;
+		plane[i + 2] = value;
+		plane[i + 3] = 255;
+		changed += differs;
+	}
+	return { plane, changed };
+}
+
+/**
+ * Checks that a channel and bit select an existing bit plane
+ *
+ * @param channel - The channel offset
+ * @param bit - The bit index
+ * @throws Error if either is out of range
+ */
+function validatePlane(channel: number, bit: number): void {
+	if (!Number.isInteger(channel) || channel < 0 || channel > 3) {
+		throw new Error(`Invalid channel: ${channel}`);
+	}
+	if (!Number.isInteger(bit) || bit < 0 || bit > 7) {
+		throw new Error(`Invalid bit plane: ${bit}`);
+	}
+}
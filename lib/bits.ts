@@ -0,0 +1,76 @@
+/**
+ * Bit Buffers
+ *
+ * Reads and writes individual bits and small bit fields of a Uint8Array,
+ * most significant bit first. The embedding techniques use these to move
+ * payloads bit by bit without building strings of "0" and "1" characters,
+ * which is far too slow for multi-megapixel images and large payloads.
+ */
+
+/**
+ * Reads one bit of a byte array
+ *
+ * @param bytes - The bytes to read from
+ * @param index - The bit index, where bit 0 is the MSB of the first byte
+ * @returns The bit, 0 or 1
+ */
+export function getBit(bytes: Uint8Array, index: number): number {
+	return (bytes[index >>> 3] >> (7 - (index & 7))) & 1;
+}
+
+/**
+ * Writes one bit of a byte array
+ *
+ * @param bytes - The bytes to write to, modified in place
+ * @param index - The bit index, where bit 0 is the MSB of the first byte
+ * @param bit - The bit to write, 0 or 1
+ */
+export function setBit(bytes: Uint8Array, index: number, bit: number): void {
+	const mask = 0x80 >> (index & 7);
+	if (bit) {
+		bytes[index >>> 3] |= mask;
+	} else {
+		bytes[index >>> 3] &= ~mask;
+	}
+}
+
+/**
+ * Reads a field of consecutive bits as an unsigned integer
+ *
+ * @param bytes - The bytes to read from
+ * @param start - The index of the first bit
+ * @param count - The number of bits to read, at most 31
+ * @returns The bits as an integer, first bit most significant; bits past the end read as 0
+ */
+export function readBits(
+	bytes: Uint8Array,
+	start: number,
+	count: number,
+): number {
+	const end = bytes.length * 8;
+	let value = 0;
+	for (let i = start; i < start + count; i++) {
+		value = (value << 1) | (i < end ? getBit(bytes, i) : 0);
+	}
+	return value;
+}
+
+/**
+ * Writes an unsigned integer as a field of consecutive bits
+ *
+ * @param bytes - The bytes to write to, modified in place
+ * @param start - The index of the first bit
+ * @param count - The number of bits to write, at most 31
+ * @param value - The value to write, most significant bit first; bits past the end are dropped
+ */
+export function writeBits(
+	bytes: Uint8Array,
+	start: number,
+	count: number,
+	value: number,
+): void {
+	const end = Math.min(start + count, bytes.length * 8);
+	for (let i = start; i < end; i++) {
+		setBit(bytes, i, (value >> (start + count - 1 - i)) & 1);
+	}
+}
@@ -0,0 +1,122 @@
+/**
+ * Payload Compression
+ *
+ * Compresses payloads with raw DEFLATE (RFC 1951) using the Compression
+ * Streams API before they are embedded, to make the most of the limited
+ * capacity of an image. Also provides the zlib-wrapped DEFLATE (RFC 1950)
+ * used by PNG image data.
+ */
+
+import { CorruptPayloadError } from "@/lib/container";
+
+// Largest payload, in bytes, that decompressPayload expands a payload to
+export const MAX_DECOMPRESSED_SIZE = 64 * 1024 * 1024;
+
+/**
+ * Compresses bytes with raw DEFLATE
+ *
+ * @param bytes - The bytes to compress
+ * @returns A Promise that resolves to the compressed bytes
+ */
+export async function compressPayload(bytes: Uint8Array): Promise<Uint8Array> {
+	return pipeThrough(bytes, new CompressionStream("deflate-raw"));
+}
+
+/**
+ * Decompresses bytes compressed with compressPayload
+ *
+ * @param bytes - The compressed bytes
+ * @returns A Promise that resolves to the original bytes
+ * @throws CorruptPayloadError if the bytes are malformed or expand beyond MAX_DECOMPRESSED_SIZE
+ */
+export async function decompressPayload(
+	bytes: Uint8Array,
+): Promise<Uint8Array> {
+	try {
+		return await pipeThrough(
+			bytes,
+			new DecompressionStream("deflate-raw"),
+			MAX_DECOMPRESSED_SIZE,
+		);
+	} catch (error) {
+		throw new CorruptPayloadError(
+			error instanceof RangeError
+				? `The hidden payload expands to more than ${MAX_DECOMPRESSED_SIZE / (1024 * 1024)} MB.`
+				: "Failed to decompress the hidden payload.",
+		);
+	}
+}
+
+/**
+ * Compresses bytes into a zlib stream
+ *
+ * @param bytes - The bytes to compress
+ * @returns A Promise that resolves to the zlib stream
+ */
+export async function zlibCompress(bytes: Uint8Array): Promise<Uint8Array> {
+	return pipeThrough(bytes, new CompressionStream("deflate"));
+}
+
+/**
+ * Decompresses a zlib stream
+ *
+ * @param bytes - The zlib stream
+ * @param maxLength - The largest number of bytes the stream may expand to
+ * @returns A Promise that resolves to the decompressed bytes
+ * @throws Error if the stream is malformed or expands beyond maxLength
+ */
+export async function zlibDecompress(
+	bytes: Uint8Array,
+	maxLength?: number,
+): Promise<Uint8Array> {
+	try {
+		return await pipeThrough(
+			bytes,
+			new DecompressionStream("deflate"),
+			maxLength,
+		);
+	} catch {
+		throw new Error("Failed to decompress the zlib stream.");
+	}
+}
+
+/**
+ * Pushes bytes through a transform stream and collects the output
+ *
+ * Reading stops as soon as the output grows beyond maxLength, so a small
+ * input cannot expand into more memory than the caller allows.
+ *
+ * @param bytes - The input bytes
+ * @param transform - The stream to pipe the bytes through
+ * @param maxLength - The largest output, in bytes, to collect
+ * @returns A Promise that resolves to the concatenated output
+ * @throws RangeError if the output is longer than maxLength
+ */
+async function pipeThrough(
+	bytes: Uint8Array,
+	transform: CompressionStream | DecompressionStream,
+	maxLength = Infinity,
+): Promise<Uint8Array> {
+	const reader = new Blob([bytes]).stream().pipeThrough(transform).getReader();
+	const chunks: Uint8Array[] = [];
+	let length = 0;
+
+	for (;;) {
+		const { done, value } = await reader.read();
+		if (done) break;
+		length += value.length;
+		if (length > maxLength) {
+			await reader.cancel();
+			throw new RangeError(`Output is longer than ${maxLength} bytes`);
+		}
+		chunks.push(value);
+	}
+
+	const output = new Uint8Array(length);
+	let offset = 0;
+	for (const chunk of chunks) {
+		output.set(chunk, offset);
+		offset += chunk.length;
+	}
+	return output;
+}
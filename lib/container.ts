@@ -0,0 +1,477 @@
+/**
+ * Payload Container Format
+ *
+ * Every technique embeds the payload wrapped in a small binary header so the
+ * decoder knows exactly how many bytes to read and can tell a real payload
+ * apart from noise.
+ *
+ * Layout (all multi-byte fields are big-endian):
+ *
+ * | Offset | Size | Field                      |
+ * | ------ | ---- | -------------------------- |
+ * | 0      | 4    | Magic bytes "STEG"         |
+ * | 4      | 1    | Format version             |
+ * | 5      | 1    | Technique ID               |
+ * | 6      | 1    | Flags                      |
+ * | 7      | 4    | Payload length in bytes    |
+ * | 11     | 4    | CRC-32 checksum of payload |
+ *
+ * When FLAG_ECC is set, the header is stored as a Reed-Solomon codeword and
+ * the payload is split into codewords of up to 255 bytes, each carrying the
+ * number of parity bytes selected by the ECC level bits of the flags.
+ *
+ * When FLAG_FILE is set, the payload is a file entry (before any compression
+ * or encryption):
+ *
+ * | Size | Field                        |
+ * | ---- | ---------------------------- |
+ * | 2    | File name length in bytes    |
+ * | n    | File name (UTF-8)            |
+ * | 1    | MIME type length in bytes    |
+ * | m    | MIME type (UTF-8)            |
+ * | rest | File contents                |
+ */
+
+import {
+	MAX_CODEWORD_SIZE,
+	ReedSolomonError,
+	rsDecode,
+	rsEncode,
+} from "@/lib/reed-solomon";
+
+const MAGIC = [0x53, 0x54, 0x45, 0x47]; // "STEG"
+
+export const FORMAT_VERSION = 1;
+export const HEADER_SIZE = 15;
+
+// Header flag bits
+export const FLAG_ENCRYPTED = 0x01;
+export const FLAG_FILE = 0x02;
+export const FLAG_COMPRESSED = 0x04;
+export const FLAG_ECC = 0x08;
+const ECC_LEVEL_MASK = 0x30;
+const ECC_LEVEL_SHIFT = 4;
+
+// Reed-Solomon parity bytes per codeword for each ECC level
+export const ECC_LEVELS = [8, 16, 32, 64];
+
+export interface ContainerHeader {
+	version: number;
+	technique: number;
+	flags: number;
+	length: number;
+	checksum: number;
+}
+
+export interface ContainerContents {
+	header: ContainerHeader;
+	payload: Uint8Array;
+	/** Number of corrupted bytes repaired, or undefined without error correction */
+	correctedErrors?: number;
+}
+
+export interface HiddenFile {
+	name: string;
+	mimeType: string;
+	data: Uint8Array;
+}
+
+/**
+ * Thrown when an image does not contain a valid payload
+ */
+export class NoPayloadError extends Error {
+	constructor(message = "No hidden payload found in this image") {
+		super(message);
+		this.name = "NoPayloadError";
+	}
+}
+
+/**
+ * Thrown when a valid header was found but the payload cannot be recovered
+ */
+export class CorruptPayloadError extends NoPayloadError {
+	constructor(message: string) {
+		super(message);
+		this.name = "CorruptPayloadError";
+	}
+}
+
+/**
+ * Wraps a payload in a container header
+ *
+ * @param payload - The bytes to wrap
+ * @param technique - The ID of the technique used to embed the container
+ * @param flags - Bit flags describing the payload
+ * @param eccSymbols - Reed-Solomon parity bytes per codeword (one of ECC_LEVELS), or 0 for none
+ * @returns The header followed by the payload
+ */
+export function writeContainer(
+	payload: Uint8Array,
+	technique: number,
+	flags = 0,
+	eccSymbols = 0,
+): Uint8Array {
+	if (eccSymbols) {
+		const level = ECC_LEVELS.indexOf(eccSymbols);
+		if (level === -1) {
+			throw new RangeError(`Unsupported error correction level: ${eccSymbols}`);
+		}
+		flags |= FLAG_ECC | (level << ECC_LEVEL_SHIFT);
+	}
+
+	const header = new Uint8Array(HEADER_SIZE);
+	const view = new DataView(header.buffer);
+
+	header.set(MAGIC, 0);
+	view.setUint8(4, FORMAT_VERSION);
+	view.setUint8(5, technique);
+	view.setUint8(6, flags);
+	view.setUint32(7, payload.length);
+	view.setUint32(11, crc32(payload));
+
+	const container = new Uint8Array(containerSize(payload.length, eccSymbols));
+	if (!eccSymbols) {
+		container.set(header, 0);
+		container.set(payload, HEADER_SIZE);
+		return container;
+	}
+
+	container.set(rsEncode(header, eccSymbols), 0);
+	const blockSize = MAX_CODEWORD_SIZE - eccSymbols;
+	let offset = HEADER_SIZE + eccSymbols;
+	for (let i = 0; i < payload.length; i += blockSize) {
+		const codeword = rsEncode(payload.subarray(i, i + blockSize), eccSymbols);
+		container.set(codeword, offset);
+		offset += codeword.length;
+	}
+
+	return container;
+}
+
+/**
+ * Reads and validates a container through a byte reader
+ *
+ * The reader is called with increasing byte counts: first to read the header,
+ * then to read the whole container once its length is known.
+ *
+ * @param read - Returns the first `byteCount` embedded bytes (or fewer if the image holds fewer)
+ * @param technique - The ID of the technique the container is expected to be embedded with
+ * @returns The header, the verified payload and the number of corrected errors
+ * @throws NoPayloadError if no valid container is found
+ * @throws CorruptPayloadError if the header is valid but the payload cannot be recovered
+ */
+export function readContainer(
+	read: (byteCount: number) => Uint8Array,
+	technique: number,
+): ContainerContents {
+	let header: ContainerHeader | null = null;
+	let headerError: unknown = null;
+	let headerCorrected = 0;
+
+	// A plain header is read as is; with error correction it is only trusted
+	// after its codeword has been checked
+	try {
+		header = readHeader(read(HEADER_SIZE));
+	} catch (error) {
+		if (!(error instanceof NoPayloadError)) throw error;
+		headerError = error;
+	}
+
+	if (!header || header.flags & FLAG_ECC) {
+		const levels = header
+			? [eccSymbolsFromFlags(header.flags), ...ECC_LEVELS]
+			: ECC_LEVELS;
+		header = null;
+
+		for (const eccSymbols of levels) {
+			try {
+				const { data, corrected } = rsDecode(
+					read(HEADER_SIZE + eccSymbols),
+					eccSymbols,
+				);
+				const candidate = readHeader(data);
+				if (
+					candidate.flags & FLAG_ECC &&
+					eccSymbolsFromFlags(candidate.flags) === eccSymbols
+				) {
+					header = candidate;
+					headerCorrected = corrected;
+					break;
+				}
+			} catch (error) {
+				if (
+					!(error instanceof ReedSolomonError) &&
+					!(error instanceof NoPayloadError)
+				) {
+					throw error;
+				}
+			}
+		}
+	}
+
+	if (!header) {
+		throw headerError ?? new NoPayloadError();
+	}
+
+	if (header.technique !== technique) {
+		throw new NoPayloadError(
+			"No hidden payload found for this technique. The image may have been encoded with a different technique.",
+		);
+	}
+
+	const eccSymbols =
+		header.flags & FLAG_ECC ? eccSymbolsFromFlags(header.flags) : 0;
+	const size = containerSize(header.length, eccSymbols);
+	const bytes = read(size);
+	if (bytes.length < size) {
+		throw new CorruptPayloadError(
+			"Hidden payload is truncated. The image may have been cropped or resized.",
+		);
+	}
+
+	if (!eccSymbols) {
+		return { header, payload: readPayload(bytes, header) };
+	}
+
+	// Correct each payload codeword
+	const payload = new Uint8Array(header.length);
+	const blockSize = MAX_CODEWORD_SIZE - eccSymbols;
+	let correctedErrors = headerCorrected;
+	let offset = HEADER_SIZE + eccSymbols;
+	for (let i = 0; i < header.length; i += blockSize) {
+		const dataLength = Math.min(blockSize, header.length - i);
+		const codeword = bytes.subarray(offset, offset + dataLength + eccSymbols);
+		try {
+			const { data, corrected } = rsDecode(codeword, eccSymbols);
+			payload.set(data, i);
+			correctedErrors += corrected;
+		} catch (error) {
+			if (!(error instanceof ReedSolomonError)) throw error;
+			throw new CorruptPayloadError(
+				"Hidden payload has too many errors to correct. Try a higher error correction level.",
+			);
+		}
+		offset += codeword.length;
+	}
+
+	verifyChecksum(payload, header);
+	return { header, payload, correctedErrors };
+}
+
+/**
+ * Computes the number of embedded bytes a container takes
+ *
+ * @param payloadLength - The payload length in bytes
+ * @param eccSymbols - Reed-Solomon parity bytes per codeword, or 0 for none
+ * @returns The container size in bytes
+ */
+export function containerSize(payloadLength: number, eccSymbols = 0): number {
+	if (!eccSymbols) {
+		return HEADER_SIZE + payloadLength;
+	}
+
+	const blocks = Math.ceil(payloadLength / (MAX_CODEWORD_SIZE - eccSymbols));
+	return HEADER_SIZE + eccSymbols + payloadLength + blocks * eccSymbols;
+}
+
+/**
+ * Computes the largest payload that fits in a given number of embedded bytes
+ *
+ * @param capacity - The number of bytes that can be embedded
+ * @param eccSymbols - Reed-Solomon parity bytes per codeword, or 0 for none
+ * @returns The maximum payload length in bytes
+ */
+export function maxPayloadSize(capacity: number, eccSymbols = 0): number {
+	const available = capacity - HEADER_SIZE - eccSymbols;
+	if (available <= 0) {
+		return 0;
+	}
+	if (!eccSymbols) {
+		return available;
+	}
+
+	const fullBlocks = Math.floor(available / MAX_CODEWORD_SIZE);
+	const remainder = available % MAX_CODEWORD_SIZE;
+	return (
+		fullBlocks * (MAX_CODEWORD_SIZE - eccSymbols) +
+		Math.max(0, remainder - eccSymbols)
+	);
+}
+
+/**
+ * Gets the number of Reed-Solomon parity bytes recorded in header flags
+ *
+ * @param flags - The header flags
+ * @returns The parity bytes per codeword
+ */
+function eccSymbolsFromFlags(flags: number): number {
+	return ECC_LEVELS[(flags & ECC_LEVEL_MASK) >> ECC_LEVEL_SHIFT];
+}
+
+/**
+ * Parses and validates a container header
+ *
+ * @param bytes - At least the first HEADER_SIZE bytes of a container
+ * @returns The parsed header
+ * @throws NoPayloadError if the bytes do not start with a valid header
+ */
+function readHeader(bytes: Uint8Array): ContainerHeader {
+	if (bytes.length < HEADER_SIZE) {
+		throw new NoPayloadError();
+	}
+
+	for (let i = 0; i < MAGIC.length; i++) {
+		if (bytes[i] !== MAGIC[i]) {
+			throw new NoPayloadError();
+		}
+	}
+
+	const view = new DataView(bytes.buffer, bytes.byteOffset, HEADER_SIZE);
+	const version = view.getUint8(4);
+	if (version !== FORMAT_VERSION) {
+		throw new NoPayloadError(
+			`Unsupported payload format version ${version}. This image may have been created by a newer version of the tool.`,
+		);
+	}
+
+	return {
+		version,
+		technique: view.getUint8(5),
+		flags: view.getUint8(6),
+		length: view.getUint32(7),
+		checksum: view.getUint32(11),
+	};
+}
+
+/**
+ * Extracts the payload from a container and verifies its checksum
+ *
+ * @param bytes - The full container (header followed by payload)
+ * @param header - The header previously parsed from the container
+ * @returns The payload bytes
+ * @throws NoPayloadError if the payload is corrupted
+ */
+function readPayload(bytes: Uint8Array, header: ContainerHeader): Uint8Array {
+	const payload = bytes.subarray(HEADER_SIZE, HEADER_SIZE + header.length);
+	verifyChecksum(payload, header);
+	return payload;
+}
+
+/**
+ * Verifies a payload against the checksum in its header
+ *
+ * @param payload - The payload bytes
+ * @param header - The header of the container
+ * @throws NoPayloadError if the checksum does not match
+ */
+function verifyChecksum(payload: Uint8Array, header: ContainerHeader): void {
+	if (crc32(payload) !== header.checksum) {
+		throw new CorruptPayloadError(
+			"Hidden payload is corrupted (checksum mismatch). The image may have been modified.",
+		);
+	}
+}
+
+/**
+ * Serializes a file with its name and MIME type into a file entry
+ *
+ * @param file - The file to serialize
+ * @returns The file entry bytes
+ */
+export function writeFileEntry(file: HiddenFile): Uint8Array {
+	const encoder = new TextEncoder();
+	const name = truncateUtf8(encoder.encode(file.name), 0xffff);
+	const mimeType = truncateUtf8(encoder.encode(file.mimeType), 0xff);
+
+	const entry = new Uint8Array(
+		2 + name.length + 1 + mimeType.length + file.data.length,
+	);
+	const view = new DataView(entry.buffer);
+
+	view.setUint16(0, name.length);
+	entry.set(name, 2);
+
+	const mimeTypeOffset = 2 + name.length;
+	view.setUint8(mimeTypeOffset, mimeType.length);
+	entry.set(mimeType, mimeTypeOffset + 1);
+	entry.set(file.data, mimeTypeOffset + 1 + mimeType.length);
+
+	return entry;
+}
+
+/**
+ * Parses a file entry back into a file with its name and MIME type
+ *
+ * @param entry - The file entry bytes
+ * @returns The hidden file
+ * @throws NoPayloadError if the entry is malformed
+ */
+export function readFileEntry(entry: Uint8Array): HiddenFile {
+	const decoder = new TextDecoder();
+	const view = new DataView(entry.buffer, entry.byteOffset, entry.length);
+
+	if (entry.length < 3) {
+		throw new NoPayloadError("Hidden file entry is malformed.");
+	}
+	const nameLength = view.getUint16(0);
+	const mimeTypeOffset = 2 + nameLength;
+	if (entry.length < mimeTypeOffset + 1) {
+		throw new NoPayloadError("Hidden file entry is malformed.");
+	}
+	const mimeTypeLength = view.getUint8(mimeTypeOffset);
+	const dataOffset = mimeTypeOffset + 1 + mimeTypeLength;
+	if (entry.length < dataOffset) {
+		throw new NoPayloadError("Hidden file entry is malformed.");
+	}
+
+	return {
+		name: decoder.decode(entry.subarray(2, mimeTypeOffset)),
+		mimeType: decoder.decode(entry.subarray(mimeTypeOffset + 1, dataOffset)),
+		data: entry.subarray(dataOffset),
+	};
+}
+
+/**
+ * Truncates UTF-8 bytes to a maximum length without splitting a character
+ *
+ * @param bytes - The UTF-8 bytes
+ * @param maxLength - The maximum number of bytes
+ * @returns The truncated bytes
+ */
+function truncateUtf8(bytes: Uint8Array, maxLength: number): Uint8Array {
+	if (bytes.length <= maxLength) return bytes;
+
+	// Back up past continuation bytes (10xxxxxx) to a character boundary
+	let end = maxLength;
+	while (end > 0 && (bytes[end] & 0xc0) === 0x80) {
+		end--;
+	}
+	return bytes.subarray(0, end);
+}
+
+let crcTable: Uint32Array | null = null;
+
+/**
+ * Computes the CRC-32 (IEEE 802.3) checksum of a byte array
+ *
+ * @param bytes - The bytes to checksum
+ * @returns The unsigned 32-bit checksum
+ */
+export function crc32(bytes: Uint8Array): number {
+	if (!crcTable) {
+		crcTable = new Uint32Array(256);
+		for (let n = 0; n < 256; n++) {
+			let c = n;
+			for (let k = 0; k < 8; k++) {
+				c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+			}
+			crcTable[n] = c >>> 0;
+		}
+	}
+
+	let crc = 0xffffffff;
+	for (let i = 0; i < bytes.length; i++) {
+		crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+	}
+	return (crc ^ 0xffffffff) >>> 0;
+}
@@ -0,0 +1,2638 @@
+/**
+ * Steganography Core
+ *
+ * The steganography techniques and the encoding and decoding pipeline,
+ * independent of any framework or runtime. Pixel-level functions operate on
+ * plain `{ width, height, data }` RGBA images; file-level functions read and
+ * write image files through an ImageCodec supplied by an adapter, such as
+ * the browser adapter in steganography.ts or the Node adapter in node.ts.
+ */
+
+import { getBit, readBits, setBit, writeBits } from "@/lib/bits";
+import { compressPayload, decompressPayload } from "@/lib/compression";
+import {
+	CorruptPayloadError,
+	ECC_LEVELS,
+	FLAG_COMPRESSED,
+	FLAG_ENCRYPTED,
+	FLAG_FILE,
+	type HiddenFile,
+	maxPayloadSize,
+	NoPayloadError,
+	readContainer,
+	readFileEntry,
+	writeContainer,
+	writeFileEntry,
+} from "@/lib/container";
+import {
+	DecryptionError,
+	ENCRYPTION_OVERHEAD,
+	decryptPayload,
+	encryptPayload,
+} from "@/lib/crypto";
+import {
+	computeHistogram,
+	findPeakPoint,
+	findZeroPoint,
+} from "@/lib/histogram";
+import {
+	decodeJpeg,
+	encodeJpeg,
+	getAcCoefficients,
+	isJpeg,
+	type JpegImage,
+	JpegError,
+	pixelsToJpeg,
+	setAcCoefficients,
+} from "@/lib/jpeg";
+import {
+	changeHeatmap,
+	checkSameSize,
+	computeQualityMetrics,
+	type QualityMetrics,
+} from "@/lib/metrics";
+import { keyedPermutation } from "@/lib/prng";
+import { analyzePixels, type SteganalysisReport } from "@/lib/steganalysis";
+
+/**
+ * The RGBA pixels of an image, laid out like the DOM ImageData
+ */
+export interface RawImage {
+	width: number;
+	height: number;
+	/** Four values per pixel in scan order: red, green, blue and alpha */
+	data: Uint8ClampedArray;
+}
+
+/**
+ * Reads and writes image files for the file-level functions
+ */
+export interface ImageCodec {
+	/** Decodes an image file into unpremultiplied RGBA pixels, without color management */
+	decode: (bytes: Uint8Array) => Promise<RawImage>;
+	/** Encodes RGBA pixels as a PNG file */
+	encodePng: (image: RawImage) => Promise<Uint8Array>;
+}
+
+/**
+ * An encoded image file
+ */
+export interface EncodedImage {
+	bytes: Uint8Array;
+	/** "image/png", or "image/jpeg" for the JPEG technique */
+	mimeType: string;
+}
+
+/**
+ * What can be hidden in an image: a text message, a file, or raw bytes
+ */
+export type HiddenContent = string | HiddenFile | Uint8Array;
+
+export interface EncodeOptions {
+	/** Encrypts the payload with AES-GCM when set */
+	passphrase?: string;
+	/** Stego key that scatters the embedded bits across the image */
+	key?: string;
+	/** Deflate-compresses the payload before embedding when it makes it smaller */
+	compress?: boolean;
+	/** Reed-Solomon parity bytes per 255-byte codeword (one of ECC_LEVELS), or 0 for none */
+	errorCorrection?: number;
+	/** Bits used in each channel by the LSB technique, from 1 to MAX_LSB_BIT_DEPTH (default 1) */
+	bitDepth?: number;
+	/** Channels used by the LSB technique, with bit i set for channel i of RGBA (default DEFAULT_LSB_CHANNELS) */
+	channels?: number;
+	/** Called as encoding moves through its stages */
+	onProgress?: ProgressCallback;
+}
+
+export interface DecodeOptions {
+	/** Passphrase for decrypting an encrypted payload */
+	passphrase?: string;
+	/** Stego key used during encoding */
+	key?: string;
+	/** Called as decoding moves through its stages */
+	onProgress?: ProgressCallback;
+}
+
+/**
+ * The stage an encoding or decoding operation has reached
+ */
+export interface Progress {
+	/** Human-readable name of the current stage */
+	stage: string;
+	/** Overall completion, from 0 to 1 */
+	fraction: number;
+}
+
+export type ProgressCallback = (progress: Progress) => void;
+
+/**
+ * The histogram of a color channel, with the points Histogram Shifting would use
+ */
+export interface ChannelHistogram {
+	/** Channel offset (0 = red, 1 = green, 2 = blue) */
+	channel: number;
+	/** Number of pixels with each of the 256 values */
+	histogram: number[];
+	peakPoint: number;
+	zeroPoint: number;
+	/** Whether Histogram Shifting would embed data in this channel */
+	used: boolean;
+}
+
+/**
+ * The outcome of encoding a message with one technique in compareImageTechniques
+ */
+export interface TechniqueResult {
+	technique: string;
+	/** Usable capacity of the cover image in bytes, unless it could not be computed */
+	capacity?: number;
+	/** The encoded image, unless encoding failed */
+	image?: EncodedImage;
+	/** Time spent embedding the payload, without reading and writing the image files, in milliseconds */
+	encodingTime?: number;
+	quality?: QualityMetrics;
+	/** Heatmap of the pixels the technique changed */
+	heatmap?: RawImage;
+	steganalysis?: SteganalysisReport;
+	/** Why encoding failed, e.g. the message did not fit */
+	error?: string;
+}
+
+/**
+ * A payload extracted from an image, along with the technique it was found with
+ */
+export type DecodedPayload = (
+	{ kind: "text"; text: string } | { kind: "file"; file: HiddenFile }
+) & {
+	technique: string;
+	/** Number of corrupted bytes repaired, or undefined without error correction */
+	correctedErrors?: number;
+};
+
+// IDs recorded in the container header for each technique
+const TECHNIQUE_IDS: Record<string, number> = {
+	lsb: 1,
+	"lsb-improved": 2,
+	patchwork: 3,
+	histogram: 4,
+	"lsb-matching": 5,
+	jpeg: 6,
+};
+
+// Every supported technique
+export const TECHNIQUES = Object.keys(TECHNIQUE_IDS);
+
+// Order in which the pixel-domain techniques are tried when detecting the
+// technique of an image (JPEG files are tried with the JPEG technique first);
+// histogram shifting goes first as its signature check is the cheapest
+const DETECTION_ORDER = [
+	"histogram",
+	"lsb",
+	"lsb-matching",
+	"lsb-improved",
+	"patchwork",
+];
+
+// Techniques whose embedding positions can be scattered with a stego key
+export const KEYED_TECHNIQUES = [
+	"lsb",
+	"lsb-improved",
+	"lsb-matching",
+	"patchwork",
+	"jpeg",
+];
+
+// Maximum number of bits per channel the LSB technique can use
+export const MAX_LSB_BIT_DEPTH = 4;
+
+// Channels the LSB technique uses by default (red, green and blue)
+export const DEFAULT_LSB_CHANNELS = 0b0111;
+
+/**
+ * Thrown when a payload does not fit in the selected image
+ */
+export class CapacityError extends Error {
+	constructor(
+		public readonly required: number,
+		public readonly available: number,
+	) {
+		super(
+			`Message too large for this image. Maximum size: ${available} bytes.`,
+		);
+		this.name = "CapacityError";
+	}
+}
+
+/**
+ * Thrown when an option given as text, e.g. on a command line or in a form,
+ * is invalid
+ */
+export class OptionError extends Error {
+	constructor(
+		/** The option, named as in TextOptions, or "technique" */
+		public readonly option: string,
+		message: string,
+	) {
+		super(message);
+		this.name = "OptionError";
+	}
+}
+
+/**
+ * Encoding options given as text by a front end, such as the CLI or the
+ * HTTP API
+ */
+export interface TextOptions {
+	passphrase?: string;
+	key?: string;
+	compress?: boolean;
+	/** Reed-Solomon parity bytes per codeword (one of ECC_LEVELS), or "0" for none */
+	errorCorrection?: string;
+	/** Bits used in each channel by the LSB technique */
+	bitDepth?: string;
+	/** Channels used by the LSB technique as letters, e.g. "rgb" */
+	channels?: string;
+}
+
+/**
+ * Validates a technique name given as text
+ *
+ * @param value - The technique name
+ * @param allowAuto - Whether "auto" (detect the technique) is accepted
+ * @returns The technique
+ * @throws OptionError if the technique is unknown
+ */
+export function parseTechnique(value: string, allowAuto = false): string {
+	const allowed = allowAuto ? [...TECHNIQUES, "auto"] : TECHNIQUES;
+	if (!allowed.includes(value)) {
+		throw new OptionError(
+			"technique",
+			`Unknown technique: ${value}. Use one of ${allowed.join(", ")}.`,
+		);
+	}
+	return value;
+}
+
+/**
+ * Parses and validates encoding options given as text
+ *
+ * @param options - The options as text
+ * @returns The encoding options
+ * @throws OptionError if an option is invalid
+ */
+export function parseEncodeOptions(options: TextOptions): EncodeOptions {
+	const errorCorrection =
+		parseWholeNumber(options.errorCorrection, "errorCorrection") ?? 0;
+	if (errorCorrection !== 0 && !ECC_LEVELS.includes(errorCorrection)) {
+		throw new OptionError(
+			"errorCorrection",
+			`Error correction must be 0 or one of ${ECC_LEVELS.join(", ")}.`,
+		);
+	}
+
+	const bitDepth = parseWholeNumber(options.bitDepth, "bitDepth");
+	if (
+		bitDepth !== undefined &&
+		(bitDepth < 1 || bitDepth > MAX_LSB_BIT_DEPTH)
+	) {
+		throw new OptionError(
+			"bitDepth",
+			`Bit depth must be between 1 and ${MAX_LSB_BIT_DEPTH}.`,
+		);
+	}
+
+	return {
+		passphrase: options.passphrase,
+		key: options.key,
+		compress: options.compress,
+		errorCorrection,
+		bitDepth,
+		channels:
+			options.channels === undefined
+				? DEFAULT_LSB_CHANNELS
+				: parseChannels(options.channels),
+	};
+}
+
+/**
+ * Parses a whole-number option
+ *
+ * @param value - The option value, if given
+ * @param option - The option name, as in TextOptions
+ * @returns The number, or undefined if the option was not given
+ * @throws OptionError if the value is not a whole number
+ */
+function parseWholeNumber(
+	value: string | undefined,
+	option: string,
+): number | undefined {
+	if (value === undefined) return undefined;
+	if (!/^\d+$/.test(value)) {
+		throw new OptionError(option, `${value} is not a whole number.`);
+	}
+	return Number(value);
+}
+
+/**
+ * Parses a channel list such as "rgb" into a channel mask
+ *
+ * @param value - The channel letters
+ * @returns The mask with bit i set for channel i of RGBA
+ * @throws OptionError if a letter is not r, g, b or a, or there are none
+ */
+function parseChannels(value: string): number {
+	let mask = 0;
+	for (const letter of value.toLowerCase()) {
+		const channel = "rgba".indexOf(letter);
+		if (channel < 0) {
+			throw new OptionError(
+				"channels",
+				"Channels may only contain the letters r, g, b and a.",
+			);
+		}
+		mask |= 1 << channel;
+	}
+	if (!mask) {
+		throw new OptionError("channels", "At least one channel must be selected.");
+	}
+	return mask;
+}
+
+/**
+ * Hides content in the pixels of an image
+ *
+ * @param cover - The pixels of the cover image, left unchanged
+ * @param content - The message, file or bytes to hide
+ * @param technique - The steganography technique to use (any but "jpeg")
+ * @param options - Additional encoding options
+ * @returns A Promise that resolves to the pixels of the stego image
+ * @throws CapacityError if the payload does not fit in the image
+ */
+export async function encodePixels(
+	cover: RawImage,
+	content: HiddenContent,
+	technique = "lsb",
+	options: EncodeOptions = {},
+): Promise<RawImage> {
+	checkPixelTechnique(technique);
+
+	options.onProgress?.({ stage: "Preparing payload", fraction: 0 });
+	const { payload, flags } = await preparePayload(
+		...contentToPayload(content),
+		options,
+	);
+
+	const stego = copyImage(cover);
+	processEncoding(stego, payload, technique, flags, options);
+	return stego;
+}
+
+/**
+ * Extracts a payload from the pixels of an image
+ *
+ * @param image - The pixels containing the hidden payload
+ * @param technique - The steganography technique used for encoding (any but "jpeg"), or "auto" to detect it
+ * @param options - Additional decoding options
+ * @returns A Promise that resolves to the decoded payload
+ * @throws NoPayloadError if no payload was found
+ */
+export async function decodePixels(
+	image: RawImage,
+	technique = "lsb",
+	options: DecodeOptions = {},
+): Promise<DecodedPayload> {
+	if (technique !== "auto") checkPixelTechnique(technique);
+
+	const container = processDecoding(
+		image,
+		technique,
+		options.key,
+		options.onProgress,
+	);
+	return toDecodedPayload(await openContainer(container, options));
+}
+
+/**
+ * Computes how many payload bytes the pixels of an image can hold
+ *
+ * For the JPEG technique, the pixels are converted to a JPEG first, as when
+ * encoding a cover image that is not a JPEG.
+ *
+ * @param image - The pixels of the cover image
+ * @param technique - The steganography technique to use
+ * @param options - Additional encoding options
+ * @returns The usable capacity in bytes
+ */
+export function getPixelCapacity(
+	image: RawImage,
+	technique = "lsb",
+	options: EncodeOptions = {},
+): number {
+	const { data, width, height } = image;
+
+	if (technique === "jpeg") {
+		const jpeg = pixelsToJpeg(data, width, height, JPEG_QUALITY);
+		return computeJpegCapacity(
+			getAcCoefficients(jpeg),
+			options.errorCorrection,
+		);
+	}
+
+	return computeCapacity(data, width, height, technique, options);
+}
+
+/**
+ * Restores the cover pixels of an image encoded with Histogram Shifting
+ *
+ * @param image - The pixels containing the hidden payload, left unchanged
+ * @returns The bit-exact pixels of the cover image
+ * @throws NoPayloadError if the image holds no histogram shifting payload
+ */
+export function restorePixels(image: RawImage): RawImage {
+	const cover = copyImage(image);
+	processRestoration(cover);
+	return cover;
+}
+
+/**
+ * Computes the per-channel histograms of an image along with the peak and
+ * zero points Histogram Shifting would use
+ *
+ * @param image - The pixels to inspect
+ * @returns The histogram of each color channel
+ */
+export function getPixelHistograms(image: RawImage): ChannelHistogram[] {
+	const { data } = image;
+	const plan = planHistogramShifting(data);
+	const region = data.subarray(HISTOGRAM_DATA_START * 4);
+
+	return HISTOGRAM_CHANNELS.map((channel) => {
+		// The points are chosen from the pixels after the metadata, as when encoding
+		const regionHistogram = computeHistogram(region, channel);
+		const peakPoint = findPeakPoint(regionHistogram);
+
+		return {
+			channel,
+			histogram: computeHistogram(data, channel),
+			peakPoint,
+			zeroPoint: findZeroPoint(regionHistogram, peakPoint),
+			used: plan.pairs.some((pair) => pair.channel === channel),
+		};
+	});
+}
+
+/**
+ * Hides content in an image file
+ *
+ * The JPEG technique embeds in the DCT coefficients and returns a JPEG; the
+ * other techniques embed in the pixels and return a PNG.
+ *
+ * @param codec - Reads and writes the image files
+ * @param cover - The cover image file
+ * @param content - The message, file or bytes to hide
+ * @param technique - The steganography technique to use
+ * @param options - Additional encoding options
+ * @returns A Promise that resolves to the stego image file
+ * @throws CapacityError if the payload does not fit in the image
+ */
+export async function encodeImage(
+	codec: ImageCodec,
+	cover: Uint8Array,
+	content: HiddenContent,
+	technique = "lsb",
+	options: EncodeOptions = {},
+): Promise<EncodedImage> {
+	options.onProgress?.({ stage: "Preparing payload", fraction: 0 });
+	const { payload, flags } = await preparePayload(
+		...contentToPayload(content),
+		options,
+	);
+	const { image } = await embedPayload(
+		codec,
+		cover,
+		payload,
+		flags,
+		technique,
+		options,
+	);
+	return image;
+}
+
+/**
+ * Extracts a payload from an image file, whether it is a text message or a file
+ *
+ * @param codec - Reads the image file
+ * @param image - The image file containing the hidden payload
+ * @param technique - The steganography technique used for encoding, or "auto" to detect it
+ * @param options - Additional decoding options
+ * @returns A Promise that resolves to the decoded payload
+ * @throws NoPayloadError if no payload was found
+ */
+export async function decodeImage(
+	codec: ImageCodec,
+	image: Uint8Array,
+	technique = "lsb",
+	options: DecodeOptions = {},
+): Promise<DecodedPayload> {
+	return toDecodedPayload(
+		await decodeContainer(codec, image, technique, options),
+	);
+}
+
+/**
+ * Extracts the raw bytes of a payload from an image file
+ *
+ * @param codec - Reads the image file
+ * @param image - The image file containing the hidden data
+ * @param technique - The steganography technique used for encoding, or "auto" to detect it
+ * @param options - Additional decoding options
+ * @returns A Promise that resolves to the decoded bytes (the file contents for hidden files)
+ * @throws NoPayloadError if no payload was found
+ */
+export async function decodeImageBytes(
+	codec: ImageCodec,
+	image: Uint8Array,
+	technique = "lsb",
+	options: DecodeOptions = {},
+): Promise<Uint8Array> {
+	const { payload, flags } = await decodeContainer(
+		codec,
+		image,
+		technique,
+		options,
+	);
+	return flags & FLAG_FILE ? readFileEntry(payload).data : payload;
+}
+
+/**
+ * Detects which steganography technique was used to hide data in an image file
+ *
+ * Tries each technique's extractor and picks the first one that yields a
+ * payload with a valid header and checksum.
+ *
+ * @param codec - Reads the image file
+ * @param image - The image file to inspect
+ * @param options - Additional decoding options (the stego key is used if set)
+ * @returns A Promise that resolves to the detected technique, or null if no payload was found
+ */
+export async function detectImageTechnique(
+	codec: ImageCodec,
+	image: Uint8Array,
+	options: DecodeOptions = {},
+): Promise<string | null> {
+	try {
+		return (await extractFromImage(codec, image, "auto", options.key))
+			.technique;
+	} catch (error) {
+		if (error instanceof NoPayloadError) return null;
+		throw error;
+	}
+}
+
+/**
+ * Computes how many payload bytes an image file can hold with a technique
+ *
+ * @param codec - Reads the image file
+ * @param image - The cover image file
+ * @param technique - The steganography technique to use
+ * @param options - Additional encoding options
+ * @returns A Promise that resolves to the usable capacity in bytes
+ */
+export async function getImageCapacity(
+	codec: ImageCodec,
+	image: Uint8Array,
+	technique = "lsb",
+	options: EncodeOptions = {},
+): Promise<number> {
+	if (technique === "jpeg") {
+		const coefficients = getAcCoefficients(await readJpegCover(codec, image));
+		return computeJpegCapacity(coefficients, options.errorCorrection);
+	}
+
+	return getPixelCapacity(await codec.decode(image), technique, options);
+}
+
+/**
+ * Encodes the same message with several techniques and measures each result
+ *
+ * The techniques run one after another, so their embedding times are not
+ * skewed by each other. A technique that fails gets a result with the error
+ * instead of failing the whole comparison.
+ *
+ * @param codec - Reads and writes the image files
+ * @param cover - The cover image file
+ * @param message - The text message to hide
+ * @param techniques - The techniques to compare
+ * @param options - Additional encoding options, shared by all techniques; progress is reported per technique
+ * @returns A Promise that resolves to the result of each technique, in order
+ */
+export async function compareImageTechniques(
+	codec: ImageCodec,
+	cover: Uint8Array,
+	message: string,
+	techniques = TECHNIQUES,
+	options: EncodeOptions = {},
+): Promise<TechniqueResult[]> {
+	const { onProgress, ...techniqueOptions } = options;
+	const { payload, flags } = await preparePayload(
+		textToBytes(message),
+		0,
+		techniqueOptions,
+	);
+	const coverPixels = await codec.decode(cover);
+	const results: TechniqueResult[] = [];
+
+	for (const [index, technique] of techniques.entries()) {
+		onProgress?.({
+			stage: `Encoding with ${technique}`,
+			fraction: index / techniques.length,
+		});
+
+		let capacity: number | undefined;
+		try {
+			capacity = await getImageCapacity(
+				codec,
+				cover,
+				technique,
+				techniqueOptions,
+			);
+
+			const { image, embeddingTime: encodingTime } = await embedPayload(
+				codec,
+				cover,
+				payload,
+				flags,
+				technique,
+				techniqueOptions,
+			);
+
+			const stegoPixels = await codec.decode(image.bytes);
+			checkSameSize(coverPixels, stegoPixels);
+			const { data, width, height } = stegoPixels;
+
+			results.push({
+				technique,
+				capacity,
+				image,
+				encodingTime,
+				quality: computeQualityMetrics(coverPixels.data, data, width, height),
+				heatmap: {
+					width,
+					height,
+					data: changeHeatmap(coverPixels.data, data),
+				},
+				steganalysis: analyzePixels(data, width, height),
+			});
+		} catch (error) {
+			results.push({
+				technique,
+				capacity,
+				error: error instanceof Error ? error.message : String(error),
+			});
+		}
+	}
+
+	return results;
+}
+
+/**
+ * Computes how many bytes of capacity a message or file will use
+ *
+ * @param content - The message, file or bytes to hide
+ * @param options - Additional encoding options
+ * @returns A Promise that resolves to the payload size in bytes
+ */
+export async function getPayloadSize(
+	content: HiddenContent,
+	options: EncodeOptions = {},
+): Promise<number> {
+	let [payload] = contentToPayload(content);
+
+	if (options.compress) {
+		payload = (await compressIfSmaller(payload, 0)).payload;
+	}
+
+	// Encryption overhead is fixed, so skip the costly key derivation here
+	return payload.length + (options.passphrase ? ENCRYPTION_OVERHEAD : 0);
+}
+
+/**
+ * Serializes the content to hide into a payload
+ *
+ * @param content - The message, file or bytes to hide
+ * @returns The payload bytes and their header flags
+ */
+function contentToPayload(content: HiddenContent): [Uint8Array, number] {
+	if (typeof content === "string") return [textToBytes(content), 0];
+	if (content instanceof Uint8Array) return [content, 0];
+	return [writeFileEntry(content), FLAG_FILE];
+}
+
+/**
+ * Checks that a technique embeds in the pixel domain
+ *
+ * @param technique - The steganography technique
+ * @throws Error for the JPEG technique, which needs the JPEG file
+ */
+function checkPixelTechnique(technique: string): void {
+	if (technique === "jpeg") {
+		throw new Error(
+			"The JPEG technique works on JPEG files, not pixels. Use encodeImage or decodeImage instead.",
+		);
+	}
+}
+
+/**
+ * Copies the pixels of an image
+ *
+ * @param image - The image to copy
+ * @returns An image with its own copy of the pixel data
+ */
+function copyImage(image: RawImage): RawImage {
+	return {
+		width: image.width,
+		height: image.height,
+		data: new Uint8ClampedArray(image.data),
+	};
+}
+
+/**
+ * Compresses a payload, keeping the compressed form only if it is smaller
+ *
+ * @param payload - The bytes to compress
+ * @param flags - Header flags describing the payload
+ * @returns A Promise that resolves to the payload to embed and its flags
+ */
+async function compressIfSmaller(
+	payload: Uint8Array,
+	flags: number,
+): Promise<{ payload: Uint8Array; flags: number }> {
+	const compressed = await compressPayload(payload);
+	if (compressed.length >= payload.length) {
+		return { payload, flags };
+	}
+	return { payload: compressed, flags: flags | FLAG_COMPRESSED };
+}
+
+/**
+ * Compresses and encrypts a payload as requested by the encoding options
+ *
+ * @param payload - The bytes to hide
+ * @param flags - Header flags describing the payload
+ * @param options - Additional encoding options
+ * @returns A Promise that resolves to the payload to embed and its updated flags
+ */
+async function preparePayload(
+	payload: Uint8Array,
+	flags: number,
+	options: EncodeOptions,
+): Promise<{ payload: Uint8Array; flags: number }> {
+	// Compress before encrypting, as ciphertext does not compress
+	if (options.compress) {
+		({ payload, flags } = await compressIfSmaller(payload, flags));
+	}
+
+	if (options.passphrase) {
+		payload = await encryptPayload(payload, options.passphrase);
+		flags |= FLAG_ENCRYPTED;
+	}
+
+	return { payload, flags };
+}
+
+/**
+ * Embeds a prepared payload into an image file with a technique
+ *
+ * @param codec - Reads and writes the image files
+ * @param cover - The cover image file
+ * @param payload - The compressed and encrypted bytes to hide
+ * @param flags - Header flags describing the payload
+ * @param technique - The steganography technique to use
+ * @param options - Additional encoding options
+ * @returns A Promise that resolves to the stego image file and the time spent embedding, in milliseconds, without reading and writing the image files
+ */
+async function embedPayload(
+	codec: ImageCodec,
+	cover: Uint8Array,
+	payload: Uint8Array,
+	flags: number,
+	technique: string,
+	options: EncodeOptions,
+): Promise<{ image: EncodedImage; embeddingTime: number }> {
+	options.onProgress?.({ stage: "Reading image", fraction: 0.2 });
+
+	if (technique === "jpeg") {
+		const jpeg = await readJpegCover(codec, cover);
+		const start = performance.now();
+		processJpegEncoding(jpeg, payload, flags, options);
+		const embeddingTime = performance.now() - start;
+
+		options.onProgress?.({ stage: "Saving image", fraction: 0.8 });
+		return {
+			image: { bytes: encodeJpeg(jpeg), mimeType: "image/jpeg" },
+			embeddingTime,
+		};
+	}
+
+	const imageData = await codec.decode(cover);
+	const start = performance.now();
+	processEncoding(imageData, payload, technique, flags, options);
+	const embeddingTime = performance.now() - start;
+
+	options.onProgress?.({ stage: "Saving image", fraction: 0.8 });
+	return {
+		image: { bytes: await codec.encodePng(imageData), mimeType: "image/png" },
+		embeddingTime,
+	};
+}
+
+/**
+ * Extracts the container from an image file and decrypts and decompresses
+ * its payload if needed
+ *
+ * @param codec - Reads the image file
+ * @param image - The image file containing the hidden payload
+ * @param technique - The steganography technique used for encoding, or "auto" to detect it
+ * @param options - Additional decoding options
+ * @returns A Promise that resolves to the decrypted and decompressed container
+ */
+async function decodeContainer(
+	codec: ImageCodec,
+	image: Uint8Array,
+	technique: string,
+	options: DecodeOptions,
+): Promise<DecodedContainer> {
+	const container = await extractFromImage(
+		codec,
+		image,
+		technique,
+		options.key,
+		options.onProgress,
+	);
+	return openContainer(container, options);
+}
+
+/**
+ * Decrypts and decompresses the payload of an extracted container if needed
+ *
+ * @param container - The extracted container, updated in place
+ * @param options - Additional decoding options
+ * @returns A Promise that resolves to the container
+ * @throws DecryptionError if the payload is encrypted and the passphrase is missing or wrong
+ */
+async function openContainer(
+	container: DecodedContainer,
+	options: DecodeOptions,
+): Promise<DecodedContainer> {
+	if (container.flags & FLAG_ENCRYPTED) {
+		options.onProgress?.({ stage: "Decrypting", fraction: 0.8 });
+		if (!options.passphrase) {
+			throw new DecryptionError(
+				"The hidden data is encrypted. Please enter the passphrase.",
+			);
+		}
+		container.payload = await decryptPayload(
+			container.payload,
+			options.passphrase,
+		);
+	}
+
+	if (container.flags & FLAG_COMPRESSED) {
+		options.onProgress?.({ stage: "Decompressing", fraction: 0.9 });
+		container.payload = await decompressPayload(container.payload);
+	}
+
+	return container;
+}
+
+/**
+ * Turns an opened container into a text message or file
+ *
+ * @param container - The decrypted and decompressed container
+ * @returns The decoded payload
+ */
+function toDecodedPayload(container: DecodedContainer): DecodedPayload {
+	if (container.flags & FLAG_FILE) {
+		return {
+			kind: "file",
+			file: readFileEntry(container.payload),
+			technique: container.technique,
+			correctedErrors: container.correctedErrors,
+		};
+	}
+
+	return {
+		kind: "text",
+		text: bytesToText(container.payload),
+		technique: container.technique,
+		correctedErrors: container.correctedErrors,
+	};
+}
+
+/**
+ * Extracts the container from an image file
+ *
+ * JPEG files are read as DCT coefficients for the JPEG technique, which is
+ * tried first when detecting the technique of a JPEG.
+ *
+ * @param codec - Reads the image file
+ * @param image - The image file containing the hidden payload
+ * @param technique - The steganography technique used for encoding, or "auto" to detect it
+ * @param key - Optional stego key used during encoding
+ * @param onProgress - Optional callback told about each stage
+ * @returns A Promise that resolves to the decoded payload bytes, their header flags and the technique used
+ */
+async function extractFromImage(
+	codec: ImageCodec,
+	image: Uint8Array,
+	technique: string,
+	key?: string,
+	onProgress?: ProgressCallback,
+): Promise<DecodedContainer> {
+	onProgress?.({ stage: "Reading image", fraction: 0 });
+
+	if (technique === "jpeg") {
+		if (!isJpeg(image)) {
+			throw new NoPayloadError(
+				"This image is not a JPEG, so it cannot hold a JPEG DCT payload.",
+			);
+		}
+		return extractJpegContainer(
+			decodeJpeg(image),
+			key,
+			loopProgress(onProgress, "Extracting", 0.2, 0.8),
+		);
+	}
+
+	let jpegError: unknown;
+	if (technique === "auto" && isJpeg(image)) {
+		try {
+			return extractJpegContainer(
+				decodeJpeg(image),
+				key,
+				loopProgress(onProgress, "Extracting", 0.1, 0.2),
+			);
+		} catch (error) {
+			// Fall back to the pixel-domain techniques unless a payload was found
+			if (
+				error instanceof CorruptPayloadError ||
+				!(error instanceof NoPayloadError || error instanceof JpegError)
+			) {
+				throw error;
+			}
+			jpegError = error;
+		}
+	}
+
+	let imageData: RawImage;
+	try {
+		imageData = await codec.decode(image);
+	} catch (error) {
+		// A codec that cannot decode JPEG pixels leaves the JPEG result standing
+		throw jpegError ?? error;
+	}
+	return processDecoding(imageData, technique, key, onProgress);
+}
+
+/**
+ * Reads the DCT coefficients of a cover image for the JPEG technique
+ *
+ * JPEGs are used as they are, so embedding does not recompress them. Other
+ * images, and JPEGs the codec cannot read, are converted to JPEG first.
+ *
+ * @param codec - Decodes images that are not JPEGs
+ * @param image - The cover image file
+ * @returns A Promise that resolves to the JPEG structure and coefficients
+ */
+async function readJpegCover(
+	codec: ImageCodec,
+	image: Uint8Array,
+): Promise<JpegImage> {
+	if (isJpeg(image)) {
+		try {
+			return decodeJpeg(image);
+		} catch (error) {
+			if (!(error instanceof JpegError)) throw error;
+		}
+	}
+
+	const { data, width, height } = await codec.decode(image);
+	return pixelsToJpeg(data, width, height, JPEG_QUALITY);
+}
+
+/**
+ * Computes how many payload bytes image data can hold with a technique
+ *
+ * @param data - The image data array
+ * @param width - The width of the image
+ * @param height - The height of the image
+ * @param technique - The steganography technique to use
+ * @param options - Additional encoding options (error correction and LSB mode)
+ * @returns The usable capacity in bytes, excluding the container overhead
+ */
+function computeCapacity(
+	data: Uint8ClampedArray,
+	width: number,
+	height: number,
+	technique: string,
+	options: EncodeOptions = {},
+): number {
+	return maxPayloadSize(
+		embeddableBytes(data, width, height, technique, options),
+		options.errorCorrection,
+	);
+}
+
+/**
+ * Computes how many container bytes image data can hold with a technique
+ *
+ * @param data - The image data array
+ * @param width - The width of the image
+ * @param height - The height of the image
+ * @param technique - The steganography technique to use
+ * @param options - Additional encoding options (LSB mode)
+ * @returns The number of bytes that can be embedded, including the container header
+ */
+function embeddableBytes(
+	data: Uint8ClampedArray,
+	width: number,
+	height: number,
+	technique: string,
+	options: EncodeOptions = {},
+): number {
+	let bits: number;
+	switch (technique) {
+		case "lsb":
+			// The selected bits of the selected channels, after the mode pixels
+			bits = lsbSlotCount(data, getLSBMode(options));
+			break;
+		case "lsb-matching":
+			// The LSB of each RGB channel, after the mode pixels
+			bits = lsbSlotCount(data, getLSBMode({}));
+			break;
+		case "lsb-improved":
+			// One bit in each RGB channel
+			bits = (data.length / 4) * 3;
+			break;
+		case "patchwork":
+			// One bit per patch of the grid
+			bits = Math.floor(width / PATCH_SIZE) * Math.floor(height / PATCH_SIZE);
+			break;
+		case "histogram":
+			// One bit per value at the peak points, less the restoration data
+			bits = histogramCapacity(data);
+			break;
+		default:
+			throw new Error(`Unknown technique: ${technique}`);
+	}
+
+	return Math.floor(bits / 8);
+}
+
+/**
+ * Reports how far the loop of a stage has got, as items done out of a total
+ */
+type LoopProgress = (done: number, total: number) => void;
+
+// Mask of the item index (bit, patch or pixel) in the embedding and
+// extraction loops; progress is checked when the masked bits are all 0, so
+// every 4096 items
+const PROGRESS_MASK = 0xfff;
+
+/**
+ * Creates a progress reporter for the loop of a stage
+ *
+ * Reports are limited to whole percent steps of the stage, so a large image
+ * does not flood the callback.
+ *
+ * @param onProgress - The callback to report to, if any
+ * @param stage - The name of the stage
+ * @param start - The overall fraction at the start of the stage
+ * @param end - The overall fraction at the end of the stage
+ * @returns The reporter, or undefined without a callback
+ */
+function loopProgress(
+	onProgress: ProgressCallback | undefined,
+	stage: string,
+	start: number,
+	end: number,
+): LoopProgress | undefined {
+	if (!onProgress) return undefined;
+
+	let reported = -1;
+	return (done, total) => {
+		const fraction = total > 0 ? Math.min(done / total, 1) : 1;
+		if (fraction - reported < 0.01 && fraction < 1) return;
+		reported = fraction;
+		onProgress({ stage, fraction: start + (end - start) * fraction });
+	};
+}
+
+/**
+ * Processes the encoding of a payload into image data, in place
+ *
+ * @param imageData - The pixels to encode the payload into
+ * @param payload - The bytes to hide
+ * @param technique - The steganography technique to use
+ * @param flags - Header flags describing the payload
+ * @param options - Additional encoding options (stego key, error correction and LSB mode)
+ */
+function processEncoding(
+	imageData: RawImage,
+	payload: Uint8Array,
+	technique: string,
+	flags: number,
+	options: EncodeOptions,
+): void {
+	const { data, width, height } = imageData;
+
+	const techniqueId = TECHNIQUE_IDS[technique];
+	if (techniqueId === undefined) {
+		throw new Error(`Unknown technique: ${technique}`);
+	}
+
+	// Prepend the container header so the decoder knows where the payload ends
+	const container = writeContainer(
+		payload,
+		techniqueId,
+		flags,
+		options.errorCorrection,
+	);
+
+	// Check if the image is large enough to hold the message, header included
+	const available = embeddableBytes(data, width, height, technique, options);
+	if (container.length > available) {
+		throw new CapacityError(
+			payload.length,
+			maxPayloadSize(available, options.errorCorrection),
+		);
+	}
+
+	// Apply the selected steganography technique
+	const progress = loopProgress(options.onProgress, "Embedding", 0.4, 0.8);
+	switch (technique) {
+		case "lsb":
+			applyLSB(data, container, getLSBMode(options), options.key, progress);
+			break;
+		case "lsb-matching":
+			applyLSBMatching(data, container, options.key, progress);
+			break;
+		case "lsb-improved":
+			applyImprovedLSB(data, container, options.key, progress);
+			break;
+		case "patchwork":
+			applyPatchwork(data, container, width, height, options.key, progress);
+			break;
+		case "histogram":
+			applyHistogramShifting(data, container, progress);
+			break;
+		default:
+			throw new Error(`Unknown technique: ${technique}`);
+	}
+}
+
+/**
+ * Processes the restoration of the cover image from a stego image, in place
+ *
+ * @param imageData - The pixels encoded with Histogram Shifting
+ */
+function processRestoration(imageData: RawImage): void {
+	// Only restore once the payload checks out, as undoing the shift on an
+	// image that was not encoded this way would damage it
+	extractContainer(
+		imageData.data,
+		imageData.width,
+		imageData.height,
+		"histogram",
+	);
+	restoreHistogramShifting(imageData.data);
+}
+
+/**
+ * Processes the encoding of a payload into the DCT coefficients of a JPEG, in place
+ *
+ * @param jpeg - The JPEG structure and coefficients of the cover image
+ * @param payload - The bytes to hide
+ * @param flags - Header flags describing the payload
+ * @param options - Additional encoding options (stego key and error correction)
+ */
+function processJpegEncoding(
+	jpeg: JpegImage,
+	payload: Uint8Array,
+	flags: number,
+	options: EncodeOptions,
+): void {
+	const container = writeContainer(
+		payload,
+		TECHNIQUE_IDS.jpeg,
+		flags,
+		options.errorCorrection,
+	);
+
+	const coefficients = getAcCoefficients(jpeg);
+	const available = jpegEmbeddableBytes(coefficients);
+	if (container.length > available) {
+		throw new CapacityError(
+			payload.length,
+			maxPayloadSize(available, options.errorCorrection),
+		);
+	}
+
+	applyF5(
+		coefficients,
+		container,
+		getCoefficientOrder(coefficients.length, options.key),
+		loopProgress(options.onProgress, "Embedding", 0.4, 0.8),
+	);
+	setAcCoefficients(jpeg, coefficients);
+}
+
+/**
+ * Extracts and validates the container embedded in the DCT coefficients of a JPEG
+ *
+ * @param jpeg - The JPEG structure and coefficients
+ * @param key - Optional stego key used during encoding
+ * @param onProgress - Optional callback told how many bits have been read
+ * @returns The decoded payload bytes, their header flags and the technique used
+ * @throws NoPayloadError if no valid container was embedded with the technique
+ */
+function extractJpegContainer(
+	jpeg: JpegImage,
+	key?: string,
+	onProgress?: LoopProgress,
+): DecodedContainer {
+	const coefficients = getAcCoefficients(jpeg);
+	const order = getCoefficientOrder(coefficients.length, key);
+
+	const { header, payload, correctedErrors } = readContainer(
+		(byteCount) => extractF5(coefficients, order, byteCount * 8, onProgress),
+		TECHNIQUE_IDS.jpeg,
+	);
+	return { payload, flags: header.flags, technique: "jpeg", correctedErrors };
+}
+
+/**
+ * Computes how many payload bytes the DCT coefficients of a JPEG can hold
+ *
+ * @param coefficients - The AC coefficients of the JPEG
+ * @param eccSymbols - Reed-Solomon parity bytes per codeword, or 0 for none
+ * @returns The usable capacity in bytes, excluding the container overhead
+ */
+function computeJpegCapacity(coefficients: Int16Array, eccSymbols = 0): number {
+	return maxPayloadSize(jpegEmbeddableBytes(coefficients), eccSymbols);
+}
+
+/**
+ * Computes how many container bytes the DCT coefficients of a JPEG can hold
+ *
+ * @param coefficients - The AC coefficients of the JPEG
+ * @returns The number of bytes that can be embedded, including the container header
+ */
+function jpegEmbeddableBytes(coefficients: Int16Array): number {
+	return Math.floor(f5Capacity(f5UsableCount(coefficients), 1) / 8);
+}
+
+/**
+ * Processes the decoding of a payload from image data
+ *
+ * @param imageData - The pixels containing the hidden payload
+ * @param technique - The steganography technique used for encoding, or "auto" to detect it
+ * @param key - Optional stego key used during encoding
+ * @param onProgress - Optional callback told about the extraction with each technique tried
+ * @returns The decoded payload bytes, their header flags and the technique used
+ */
+function processDecoding(
+	imageData: RawImage,
+	technique: string,
+	key?: string,
+	onProgress?: ProgressCallback,
+): DecodedContainer {
+	const { data, width, height } = imageData;
+
+	if (technique !== "auto") {
+		return extractContainer(
+			data,
+			width,
+			height,
+			technique,
+			key,
+			loopProgress(onProgress, "Extracting", 0.4, 0.8),
+		);
+	}
+
+	// Try each technique until one yields a payload with a valid header and checksum
+	const step = 0.6 / DETECTION_ORDER.length;
+	for (const [i, candidate] of DETECTION_ORDER.entries()) {
+		try {
+			return extractContainer(
+				data,
+				width,
+				height,
+				candidate,
+				key,
+				loopProgress(
+					onProgress,
+					"Extracting",
+					0.2 + step * i,
+					0.2 + step * (i + 1),
+				),
+			);
+		} catch (error) {
+			// A corrupt payload means the technique matched, so stop searching
+			if (
+				!(error instanceof NoPayloadError) ||
+				error instanceof CorruptPayloadError
+			) {
+				throw error;
+			}
+		}
+	}
+
+	throw new NoPayloadError(
+		"No hidden payload found with any technique. If a stego key was used, make sure it is correct.",
+	);
+}
+
+interface DecodedContainer {
+	payload: Uint8Array;
+	flags: number;
+	technique: string;
+	correctedErrors?: number;
+}
+
+/**
+ * Extracts and validates the container embedded with a specific technique
+ *
+ * @param data - The image data array
+ * @param width - The width of the image
+ * @param height - The height of the image
+ * @param technique - The steganography technique used for encoding
+ * @param key - Optional stego key used during encoding
+ * @param onProgress - Optional callback told how many bits have been read
+ * @returns The decoded payload bytes, their header flags and the technique used
+ * @throws NoPayloadError if no valid container was embedded with the technique
+ */
+function extractContainer(
+	data: Uint8ClampedArray,
+	width: number,
+	height: number,
+	technique: string,
+	key?: string,
+	onProgress?: LoopProgress,
+): DecodedContainer {
+	const techniqueId = TECHNIQUE_IDS[technique];
+	if (techniqueId === undefined) {
+		throw new Error(`Unknown technique: ${technique}`);
+	}
+
+	// Extracts the first bitCount bits using the selected technique; the
+	// container is read through it header first, then in full
+	const extract = (bitCount: number): Uint8Array => {
+		switch (technique) {
+			case "lsb":
+			case "lsb-matching":
+				// LSB matching only changes how bits are written, not how they are read
+				return extractLSB(data, bitCount, key, onProgress);
+			case "lsb-improved":
+				return extractImprovedLSB(data, bitCount, key, onProgress);
+			case "patchwork":
+				return extractPatchwork(data, width, height, bitCount, key, onProgress);
+			default:
+				return extractHistogramShifting(data, bitCount, onProgress);
+		}
+	};
+
+	const { header, payload, correctedErrors } = readContainer(
+		(byteCount) => extract(byteCount * 8),
+		techniqueId,
+	);
+	return { payload, flags: header.flags, technique, correctedErrors };
+}
+
+/**
+ * Encodes text as UTF-8 bytes
+ *
+ * @param text - The text to encode
+ * @returns The UTF-8 byte representation of the text
+ */
+function textToBytes(text: string): Uint8Array {
+	return new TextEncoder().encode(text);
+}
+
+/**
+ * Decodes UTF-8 bytes back to text
+ *
+ * @param bytes - The UTF-8 bytes to decode
+ * @returns The decoded text (invalid sequences become U+FFFD)
+ */
+function bytesToText(bytes: Uint8Array): string {
+	return new TextDecoder().decode(bytes);
+}
+
+/**
+ * Returns the order in which channel slots are visited for embedding
+ *
+ * Without a key the slots are visited sequentially; with a key they follow a
+ * key-seeded pseudo-random permutation.
+ *
+ * @param slotCount - The number of slots in the image
+ * @param bitCount - The number of slots needed
+ * @param key - Optional stego key
+ * @returns The slot order, or null for sequential order
+ */
+function getSlotOrder(
+	slotCount: number,
+	bitCount: number,
+	key?: string,
+): Uint32Array | null {
+	if (!key) return null;
+	return keyedPermutation(slotCount, bitCount, key);
+}
+
+/**
+ * Converts an RGB channel slot to its index in the image data array
+ *
+ * Slot `s` refers to channel `s % 3` of pixel `Math.floor(s / 3)`.
+ *
+ * @param slot - The slot number
+ * @returns The index of the channel value in the RGBA data
+ */
+function slotToIndex(slot: number): number {
+	return Math.floor(slot / 3) * 4 + (slot % 3);
+}
+
+// Pixels whose RGB LSBs hold the LSB mode; they are always read in order, so
+// the extractor can find the mode before it knows how the payload is laid out
+const LSB_MODE_PIXELS = 3;
+
+interface LSBMode {
+	bitDepth: number;
+	// Indices of the RGBA channels used, in embedding order
+	channels: number[];
+}
+
+/**
+ * Builds the LSB mode from the encoding options
+ *
+ * @param options - The encoding options
+ * @returns The bit depth and channels to embed in
+ * @throws Error if the bit depth or channel mask is out of range
+ */
+function getLSBMode(options: EncodeOptions): LSBMode {
+	const bitDepth = options.bitDepth ?? 1;
+	const mask = options.channels ?? DEFAULT_LSB_CHANNELS;
+
+	if (
+		!Number.isInteger(bitDepth) ||
+		bitDepth < 1 ||
+		bitDepth > MAX_LSB_BIT_DEPTH
+	) {
+		throw new Error(`Bit depth must be between 1 and ${MAX_LSB_BIT_DEPTH}`);
+	}
+	if (!Number.isInteger(mask) || mask < 1 || mask > 0b1111) {
+		throw new Error("At least one channel must be selected");
+	}
+
+	return {
+		bitDepth,
+		channels: [0, 1, 2, 3].filter((channel) => mask & (1 << channel)),
+	};
+}
+
+/**
+ * Serializes an LSB mode into a byte
+ *
+ * The low 4 bits hold the channel mask and the next 2 bits the bit depth
+ * minus one; the top 2 bits are reserved and always 0.
+ *
+ * @param mode - The LSB mode
+ * @returns The mode byte
+ */
+function lsbModeToByte(mode: LSBMode): number {
+	const mask = mode.channels.reduce(
+		(mask, channel) => mask | (1 << channel),
+		0,
+	);
+	return ((mode.bitDepth - 1) << 4) | mask;
+}
+
+/**
+ * Parses a byte written by lsbModeToByte
+ *
+ * @param byte - The mode byte
+ * @returns The LSB mode
+ * @throws NoPayloadError if the byte is not a valid mode
+ */
+function lsbModeFromByte(byte: number): LSBMode {
+	if (byte & 0xc0 || !(byte & 0x0f)) {
+		throw new NoPayloadError();
+	}
+
+	return getLSBMode({
+		bitDepth: ((byte >> 4) & 0x03) + 1,
+		channels: byte & 0x0f,
+	});
+}
+
+/**
+ * Counts the payload slots available to the LSB technique
+ *
+ * @param data - The image data array
+ * @param mode - The LSB mode
+ * @returns The number of slots after the mode pixels
+ */
+function lsbSlotCount(data: Uint8ClampedArray, mode: LSBMode): number {
+	const pixels = Math.max(data.length / 4 - LSB_MODE_PIXELS, 0);
+	return pixels * mode.channels.length * mode.bitDepth;
+}
+
+/**
+ * Converts a payload slot of the LSB technique to its position in the image
+ *
+ * Each pixel after the mode pixels holds one slot for every bit of every
+ * selected channel, going through the channels for the lowest bit first.
+ *
+ * @param slot - The slot number
+ * @param mode - The LSB mode
+ * @returns The index of the channel value in the RGBA data and the bit position
+ */
+function lsbSlotToPosition(
+	slot: number,
+	mode: LSBMode,
+): { index: number; shift: number } {
+	const perPixel = mode.channels.length * mode.bitDepth;
+	const pixel = LSB_MODE_PIXELS + Math.floor(slot / perPixel);
+	const offset = slot % perPixel;
+
+	return {
+		index: pixel * 4 + mode.channels[offset % mode.channels.length],
+		shift: Math.floor(offset / mode.channels.length),
+	};
+}
+
+/**
+ * Applies the Least Significant Bit (LSB) technique to hide a message
+ *
+ * The mode is recorded in the LSBs of the first pixels, followed by the
+ * message in the selected bits of the selected channels. Using the alpha
+ * channel only works in browsers that keep canvas pixels unpremultiplied.
+ *
+ * @param data - The image data array
+ * @param message - The bytes to hide
+ * @param mode - The bit depth and channels to embed in
+ * @param key - Optional stego key that scatters the bits across the image
+ * @param onProgress - Optional callback told how many bits have been embedded
+ */
+function applyLSB(
+	data: Uint8ClampedArray,
+	message: Uint8Array,
+	mode: LSBMode,
+	key?: string,
+	onProgress?: LoopProgress,
+): void {
+	// Record the mode so the extractor knows which bits to read
+	const modeByte = Uint8Array.of(lsbModeToByte(mode));
+	for (let bitIndex = 0; bitIndex < 8; bitIndex++) {
+		const i = slotToIndex(bitIndex);
+		data[i] = (data[i] & 0xfe) | getBit(modeByte, bitIndex);
+	}
+
+	const bitCount = message.length * 8;
+	const order = getSlotOrder(lsbSlotCount(data, mode), bitCount, key);
+
+	for (let bitIndex = 0; bitIndex < bitCount; bitIndex++) {
+		if ((bitIndex & PROGRESS_MASK) === 0) onProgress?.(bitIndex, bitCount);
+		const { index, shift } = lsbSlotToPosition(
+			order ? order[bitIndex] : bitIndex,
+			mode,
+		);
+
+		// Clear the bit and set it to the message bit
+		data[index] =
+			(data[index] & ~(1 << shift)) | (getBit(message, bitIndex) << shift);
+	}
+}
+
+/**
+ * Extracts a message hidden using the LSB technique
+ *
+ * @param data - The image data array
+ * @param bitCount - The number of bits to extract
+ * @param key - Optional stego key used during encoding
+ * @param onProgress - Optional callback told how many bits have been read
+ * @returns The bytes extracted from the image, fewer if the image holds fewer bits
+ * @throws NoPayloadError if the first pixels do not hold a valid mode
+ */
+function extractLSB(
+	data: Uint8ClampedArray,
+	bitCount: number,
+	key?: string,
+	onProgress?: LoopProgress,
+): Uint8Array {
+	const modeByte = new Uint8Array(1);
+	for (let bitIndex = 0; bitIndex < 8; bitIndex++) {
+		setBit(modeByte, bitIndex, data[slotToIndex(bitIndex)] & 0x01);
+	}
+	const mode = lsbModeFromByte(modeByte[0]);
+
+	const slotCount = lsbSlotCount(data, mode);
+	const message = new Uint8Array(Math.floor(Math.min(slotCount, bitCount) / 8));
+	const order = getSlotOrder(slotCount, message.length * 8, key);
+
+	for (let bitIndex = 0; bitIndex < message.length * 8; bitIndex++) {
+		if ((bitIndex & PROGRESS_MASK) === 0) {
+			onProgress?.(bitIndex, message.length * 8);
+		}
+		const { index, shift } = lsbSlotToPosition(
+			order ? order[bitIndex] : bitIndex,
+			mode,
+		);
+
+		// Extract the bit
+		setBit(message, bitIndex, (data[index] >> shift) & 0x01);
+	}
+
+	return message;
+}
+
+/**
+ * Moves a channel value by one so that its LSB matches a bit
+ *
+ * @param value - The channel value
+ * @param bit - The bit the LSB should hold
+ * @returns The value, unchanged if its LSB already matches
+ */
+function matchLSB(value: number, bit: number): number {
+	if ((value & 0x01) === bit) return value;
+
+	// Stay in range at the ends, otherwise pick a direction at random
+	if (value === 0) return 1;
+	if (value === 255) return 254;
+	return Math.random() < 0.5 ? value - 1 : value + 1;
+}
+
+/**
+ * Applies the LSB matching technique to hide a message
+ *
+ * Uses the same layout as the LSB technique with one bit in each RGB channel,
+ * but when a bit needs changing it randomly adds or subtracts 1 instead of
+ * replacing the LSB. This avoids the pairs-of-values artifact that
+ * chi-square and RS steganalysis detect in LSB replacement.
+ *
+ * @param data - The image data array
+ * @param message - The bytes to hide
+ * @param key - Optional stego key that scatters the bits across the image
+ * @param onProgress - Optional callback told how many bits have been embedded
+ */
+function applyLSBMatching(
+	data: Uint8ClampedArray,
+	message: Uint8Array,
+	key?: string,
+	onProgress?: LoopProgress,
+): void {
+	const mode = getLSBMode({});
+
+	// Record the mode so extractLSB can read the message back
+	const modeByte = Uint8Array.of(lsbModeToByte(mode));
+	for (let bitIndex = 0; bitIndex < 8; bitIndex++) {
+		const i = slotToIndex(bitIndex);
+		data[i] = matchLSB(data[i], getBit(modeByte, bitIndex));
+	}
+
+	const bitCount = message.length * 8;
+	const order = getSlotOrder(lsbSlotCount(data, mode), bitCount, key);
+
+	for (let bitIndex = 0; bitIndex < bitCount; bitIndex++) {
+		if ((bitIndex & PROGRESS_MASK) === 0) onProgress?.(bitIndex, bitCount);
+		const { index } = lsbSlotToPosition(
+			order ? order[bitIndex] : bitIndex,
+			mode,
+		);
+		data[index] = matchLSB(data[index], getBit(message, bitIndex));
+	}
+}
+
+// Bit position used in each RGB channel by the improved LSB technique
+// (red uses the 2nd LSB, green the LSB and blue the 3rd LSB)
+const IMPROVED_LSB_SHIFTS = [1, 0, 2];
+
+/**
+ * Applies an improved LSB technique that uses variable bit positions
+ *
+ * @param data - The image data array
+ * @param message - The bytes to hide
+ * @param key - Optional stego key that scatters the bits across the image
+ * @param onProgress - Optional callback told how many bits have been embedded
+ */
+function applyImprovedLSB(
+	data: Uint8ClampedArray,
+	message: Uint8Array,
+	key?: string,
+	onProgress?: LoopProgress,
+): void {
+	const bitCount = message.length * 8;
+	const order = getSlotOrder((data.length / 4) * 3, bitCount, key);
+
+	for (let bitIndex = 0; bitIndex < bitCount; bitIndex++) {
+		if ((bitIndex & PROGRESS_MASK) === 0) onProgress?.(bitIndex, bitCount);
+		const slot = order ? order[bitIndex] : bitIndex;
+		const i = slotToIndex(slot);
+
+		// Use different bit positions for different color channels
+		const shift = IMPROVED_LSB_SHIFTS[slot % 3];
+		data[i] = (data[i] & ~(1 << shift)) | (getBit(message, bitIndex) << shift);
+	}
+}
+
+/**
+ * Extracts a message hidden using the improved LSB technique
+ *
+ * @param data - The image data array
+ * @param bitCount - The number of bits to extract
+ * @param key - Optional stego key used during encoding
+ * @param onProgress - Optional callback told how many bits have been read
+ * @returns The bytes extracted from the image, fewer if the image holds fewer bits
+ */
+function extractImprovedLSB(
+	data: Uint8ClampedArray,
+	bitCount: number,
+	key?: string,
+	onProgress?: LoopProgress,
+): Uint8Array {
+	const slotCount = (data.length / 4) * 3;
+	const message = new Uint8Array(Math.floor(Math.min(slotCount, bitCount) / 8));
+	const order = getSlotOrder(slotCount, message.length * 8, key);
+
+	for (let bitIndex = 0; bitIndex < message.length * 8; bitIndex++) {
+		if ((bitIndex & PROGRESS_MASK) === 0) {
+			onProgress?.(bitIndex, message.length * 8);
+		}
+		const slot = order ? order[bitIndex] : bitIndex;
+		const i = slotToIndex(slot);
+
+		// Extract from the bit position used for this channel
+		const shift = IMPROVED_LSB_SHIFTS[slot % 3];
+		setBit(message, bitIndex, (data[i] >> shift) & 0x01);
+	}
+
+	return message;
+}
+
+// Patchwork patches are PATCH_SIZE x PATCH_SIZE blocks on a non-overlapping grid
+const PATCH_SIZE = 8;
+
+// Minimum difference between the set A and set B blue averages of a patch
+const PATCHWORK_MARGIN = 2;
+
+// Key used to shuffle the patches when no stego key is given
+const DEFAULT_PATCHWORK_KEY = "patchwork";
+
+/**
+ * Returns the grid patches used for the first bits of a patchwork payload
+ *
+ * @param width - The width of the image
+ * @param height - The height of the image
+ * @param bitCount - The number of patches needed
+ * @param key - Optional stego key that shuffles the patches
+ * @returns The x and y pixel offset of each patch, in embedding order
+ */
+function getPatches(
+	width: number,
+	height: number,
+	bitCount: number,
+	key?: string,
+): { x: number; y: number }[] {
+	const columns = Math.floor(width / PATCH_SIZE);
+	const rows = Math.floor(height / PATCH_SIZE);
+	const order = keyedPermutation(
+		columns * rows,
+		bitCount,
+		key || DEFAULT_PATCHWORK_KEY,
+	);
+
+	return Array.from(order, (cell) => ({
+		x: (cell % columns) * PATCH_SIZE,
+		y: Math.floor(cell / columns) * PATCH_SIZE,
+	}));
+}
+
+/**
+ * Computes the patchwork statistic of a patch
+ *
+ * The patch is split into two interleaved sets in a checkerboard pattern:
+ * set A holds the pixels where x + y is even and set B the rest.
+ *
+ * @param data - The image data array
+ * @param width - The width of the image
+ * @param patch - The pixel offset of the patch
+ * @returns The average blue value of set A minus that of set B
+ */
+function patchDifference(
+	data: Uint8ClampedArray,
+	width: number,
+	patch: { x: number; y: number },
+): number {
+	let sumA = 0;
+	let sumB = 0;
+
+	for (let y = 0; y < PATCH_SIZE; y++) {
+		for (let x = 0; x < PATCH_SIZE; x++) {
+			const blue = data[((patch.y + y) * width + (patch.x + x)) * 4 + 2];
+			if ((x + y) % 2 === 0) {
+				sumA += blue;
+			} else {
+				sumB += blue;
+			}
+		}
+	}
+
+	const setSize = (PATCH_SIZE * PATCH_SIZE) / 2;
+	return (sumA - sumB) / setSize;
+}
+
+/**
+ * Applies the Patchwork technique to hide a message
+ *
+ * Each bit is embedded in its own patch by raising the blue channel of set A
+ * and lowering it in set B (or the reverse) until the difference between the
+ * set averages reaches the margin with the sign of the bit.
+ *
+ * @param data - The image data array
+ * @param message - The bytes to hide
+ * @param width - The width of the image
+ * @param height - The height of the image
+ * @param key - Optional stego key that shuffles the patches
+ * @param onProgress - Optional callback told how many bits have been embedded
+ */
+function applyPatchwork(
+	data: Uint8ClampedArray,
+	message: Uint8Array,
+	width: number,
+	height: number,
+	key?: string,
+	onProgress?: LoopProgress,
+): void {
+	const patches = getPatches(width, height, message.length * 8, key);
+
+	for (let bitIndex = 0; bitIndex < patches.length; bitIndex++) {
+		if ((bitIndex & PROGRESS_MASK) === 0) {
+			onProgress?.(bitIndex, patches.length);
+		}
+		const patch = patches[bitIndex];
+		const sign = getBit(message, bitIndex) ? 1 : -1;
+
+		// Retry a few times, as clamping at 0 or 255 can absorb part of a shift
+		for (let attempt = 0; attempt < 4; attempt++) {
+			const difference = sign * patchDifference(data, width, patch);
+			if (difference >= PATCHWORK_MARGIN) break;
+
+			const shift = sign * Math.ceil((PATCHWORK_MARGIN - difference) / 2);
+			for (let y = 0; y < PATCH_SIZE; y++) {
+				for (let x = 0; x < PATCH_SIZE; x++) {
+					const i = ((patch.y + y) * width + (patch.x + x)) * 4 + 2;
+					data[i] += (x + y) % 2 === 0 ? shift : -shift;
+				}
+			}
+		}
+	}
+}
+
+/**
+ * Extracts a message hidden using the Patchwork technique
+ *
+ * @param data - The image data array
+ * @param width - The width of the image
+ * @param height - The height of the image
+ * @param bitCount - The number of bits to extract
+ * @param key - Optional stego key used during encoding
+ * @param onProgress - Optional callback told how many bits have been read
+ * @returns The bytes extracted from the image, fewer if the image holds fewer bits
+ */
+function extractPatchwork(
+	data: Uint8ClampedArray,
+	width: number,
+	height: number,
+	bitCount: number,
+	key?: string,
+	onProgress?: LoopProgress,
+): Uint8Array {
+	const patches = getPatches(width, height, bitCount, key);
+	const message = new Uint8Array(Math.floor(patches.length / 8));
+
+	for (let bitIndex = 0; bitIndex < message.length * 8; bitIndex++) {
+		if ((bitIndex & PROGRESS_MASK) === 0) {
+			onProgress?.(bitIndex, message.length * 8);
+		}
+		// Set A is brighter than set B for a 1 bit
+		setBit(
+			message,
+			bitIndex,
+			patchDifference(data, width, patches[bitIndex]) > 0 ? 1 : 0,
+		);
+	}
+
+	return message;
+}
+
+// Histogram shifting embeds in all three color channels
+const HISTOGRAM_CHANNELS = [0, 1, 2];
+
+// Metadata: an 8-byte signature, the peak point, zero point and shift
+// direction of each channel, and the 32-bit message length in bytes
+const HISTOGRAM_SIGNATURE_SIZE = 8;
+const HISTOGRAM_METADATA_SIZE =
+	HISTOGRAM_SIGNATURE_SIZE + HISTOGRAM_CHANNELS.length * 3 + 4;
+
+// Pixels whose RGB values hold the histogram shifting metadata
+const HISTOGRAM_METADATA_PIXELS = Math.ceil(HISTOGRAM_METADATA_SIZE / 3);
+
+// Pixels before this one are never shifted or used for data
+const HISTOGRAM_DATA_START = 32;
+
+// Bits embedded after the message so the cover image can be restored: the
+// original metadata pixel values and the 32-bit location map length
+const HISTOGRAM_RESTORE_BITS = (HISTOGRAM_METADATA_PIXELS * 3 + 4) * 8;
+
+// Shift direction recorded for a channel that holds no data
+const HISTOGRAM_UNUSED_CHANNEL = 0xff;
+
+interface HistogramPair {
+	channel: number;
+	peakPoint: number;
+	zeroPoint: number;
+	shiftRight: boolean;
+}
+
+interface HistogramPlan {
+	pairs: HistogramPair[];
+	// Number of values at the peak points, i.e. the raw capacity in bits
+	peakCount: number;
+	// Compressed positions of the values already at the zero points
+	locationMap: Uint8Array;
+}
+
+/**
+ * Chooses a peak/zero pair for each channel and builds the location map
+ *
+ * When the zero point is not empty, the positions of the values already at it
+ * go in the location map, so they can be told apart from shifted values when
+ * restoring the cover image.
+ *
+ * @param data - The image data array
+ * @returns The pairs, their total capacity and the location map
+ */
+function planHistogramShifting(data: Uint8ClampedArray): HistogramPlan {
+	const region = data.subarray(HISTOGRAM_DATA_START * 4);
+	const pairs: HistogramPair[] = [];
+	const locationMap: number[] = [];
+	let peakCount = 0;
+
+	for (const channel of HISTOGRAM_CHANNELS) {
+		const histogram = computeHistogram(region, channel);
+		const peakPoint = findPeakPoint(histogram);
+		const zeroPoint = findZeroPoint(histogram, peakPoint);
+
+		const pair = {
+			channel,
+			peakPoint,
+			zeroPoint,
+			shiftRight: zeroPoint > peakPoint,
+		};
+		const mapStart = locationMap.length;
+		writeLocationMap(locationMap, data, pair);
+
+		// Leave out channels whose location map takes more than their peak holds
+		if (histogram[peakPoint] <= (locationMap.length - mapStart) * 8) {
+			locationMap.length = mapStart;
+			continue;
+		}
+
+		pairs.push(pair);
+		peakCount += histogram[peakPoint];
+	}
+
+	return { pairs, peakCount, locationMap: Uint8Array.from(locationMap) };
+}
+
+/**
+ * Appends the location map of the values already at a zero point
+ *
+ * The map holds the number of positions followed by the gaps between
+ * consecutive positions, all as variable-length integers. The positions are
+ * sparse, so this is much smaller than a bitmap of the image.
+ *
+ * @param bytes - The location map to append to
+ * @param data - The image data array
+ * @param pair - The peak/zero pair
+ */
+function writeLocationMap(
+	bytes: number[],
+	data: Uint8ClampedArray,
+	pair: HistogramPair,
+): void {
+	const { channel, zeroPoint } = pair;
+	const positions: number[] = [];
+	for (
+		let i = HISTOGRAM_DATA_START * 4, position = 0;
+		i < data.length;
+		i += 4, position++
+	) {
+		if (data[i + channel] === zeroPoint) positions.push(position);
+	}
+
+	writeVarint(bytes, positions.length);
+	let previous = 0;
+	for (const position of positions) {
+		writeVarint(bytes, position - previous);
+		previous = position;
+	}
+}
+
+/**
+ * Puts the values recorded in a location map back at the zero points
+ *
+ * @param data - The image data array
+ * @param pairs - The peak/zero pairs
+ * @param locationMap - The compressed location map
+ * @throws CorruptPayloadError if the location map is truncated
+ */
+function applyLocationMap(
+	data: Uint8ClampedArray,
+	pairs: HistogramPair[],
+	locationMap: Uint8Array,
+): void {
+	const cursor = { offset: 0 };
+
+	for (const { channel, zeroPoint } of pairs) {
+		const count = readVarint(locationMap, cursor);
+		let position = 0;
+		for (let i = 0; i < count; i++) {
+			position += readVarint(locationMap, cursor);
+			data[(HISTOGRAM_DATA_START + position) * 4 + channel] = zeroPoint;
+		}
+	}
+}
+
+/**
+ * Appends an unsigned integer as a LEB128 variable-length integer
+ *
+ * @param bytes - The array to append to
+ * @param value - The value to write
+ */
+function writeVarint(bytes: number[], value: number): void {
+	while (value >= 0x80) {
+		bytes.push((value & 0x7f) | 0x80);
+		value = Math.floor(value / 0x80);
+	}
+	bytes.push(value);
+}
+
+/**
+ * Reads a LEB128 variable-length integer
+ *
+ * @param bytes - The bytes to read from
+ * @param cursor - The read position, advanced past the integer
+ * @returns The value read
+ * @throws CorruptPayloadError if the bytes end before the integer does
+ */
+function readVarint(bytes: Uint8Array, cursor: { offset: number }): number {
+	let value = 0;
+	let scale = 1;
+
+	for (;;) {
+		if (cursor.offset >= bytes.length) {
+			throw new CorruptPayloadError("The location map is truncated.");
+		}
+		const byte = bytes[cursor.offset++];
+		value += (byte & 0x7f) * scale;
+		if (!(byte & 0x80)) return value;
+		scale *= 0x80;
+	}
+}
+
+/**
+ * Returns the index in the image data of a histogram metadata byte
+ *
+ * @param index - The index of the metadata byte
+ * @returns The index of the RGB value holding it
+ */
+function histogramMetadataIndex(index: number): number {
+	return Math.floor(index / 3) * 4 + (index % 3);
+}
+
+/**
+ * Computes how many bits Histogram Shifting can embed in image data
+ *
+ * @param data - The image data array
+ * @returns The number of message bits, after the data needed for restoration
+ */
+function histogramCapacity(data: Uint8ClampedArray): number {
+	const { peakCount, locationMap } = planHistogramShifting(data);
+	return Math.max(
+		peakCount - HISTOGRAM_RESTORE_BITS - locationMap.length * 8,
+		0,
+	);
+}
+
+/**
+ * Applies the reversible Histogram Shifting technique to hide a message
+ *
+ * Each color channel has its own peak/zero pair. The original values of the
+ * metadata pixels and the location map are embedded after the message, so
+ * the cover image can be restored exactly after extraction.
+ *
+ * @param data - The image data array
+ * @param message - The bytes to hide
+ * @param onProgress - Optional callback told how many pixels have been processed
+ */
+function applyHistogramShifting(
+	data: Uint8ClampedArray,
+	message: Uint8Array,
+	onProgress?: LoopProgress,
+): void {
+	// The shifting and embedding passes each scan the pixels once
+	const pixelCount = data.length / 4;
+
+	// Steps 1-3: Compute the histograms and find the peak and zero points
+	const { pairs, locationMap } = planHistogramShifting(data);
+
+	// Step 4: Shift histogram to create space
+	// If zero point is greater than peak point, shift right
+	// If zero point is less than peak point, shift left
+	// Skip the first 32 pixels (metadata area)
+	for (let i = HISTOGRAM_DATA_START * 4; i < data.length; i += 4) {
+		if (((i >> 2) & PROGRESS_MASK) === 0) onProgress?.(i >> 2, pixelCount * 2);
+		for (const { channel, peakPoint, zeroPoint, shiftRight } of pairs) {
+			const pixelValue = data[i + channel];
+
+			if (shiftRight) {
+				// Shift values between peak and zero to the right
+				if (pixelValue > peakPoint && pixelValue < zeroPoint) {
+					data[i + channel] = pixelValue + 1;
+				}
+			} else {
+				// Shift values between zero and peak to the left
+				if (pixelValue > zeroPoint && pixelValue < peakPoint) {
+					data[i + channel] = pixelValue - 1;
+				}
+			}
+		}
+	}
+
+	// Step 5: Embed the message followed by the data needed for restoration
+	const restoreData = new Uint8Array(HISTOGRAM_METADATA_PIXELS * 3 + 4);
+	for (let i = 0; i < HISTOGRAM_METADATA_PIXELS * 3; i++) {
+		restoreData[i] = data[histogramMetadataIndex(i)];
+	}
+	new DataView(restoreData.buffer).setUint32(
+		HISTOGRAM_METADATA_PIXELS * 3,
+		locationMap.length,
+	);
+
+	const bits = new Uint8Array(
+		message.length + restoreData.length + locationMap.length,
+	);
+	bits.set(message);
+	bits.set(restoreData, message.length);
+	bits.set(locationMap, message.length + restoreData.length);
+	const bitCount = bits.length * 8;
+	let bitIndex = 0;
+
+	// Skip the first 32 pixels (metadata area)
+	for (
+		let i = HISTOGRAM_DATA_START * 4;
+		i < data.length && bitIndex < bitCount;
+		i += 4
+	) {
+		if (((i >> 2) & PROGRESS_MASK) === 0) {
+			onProgress?.(pixelCount + (i >> 2), pixelCount * 2);
+		}
+		for (const { channel, peakPoint, shiftRight } of pairs) {
+			if (data[i + channel] === peakPoint && bitIndex < bitCount) {
+				// If bit is 1, shift the peak value
+				if (getBit(bits, bitIndex)) {
+					data[i + channel] = shiftRight ? peakPoint + 1 : peakPoint - 1;
+				}
+
+				bitIndex++;
+			}
+		}
+	}
+
+	// Store metadata in the first pixels: the signature pattern
+	// [10, 20, 30, 40, 50, 60, 70, 80], the peak point, zero point and shift
+	// direction of each channel, then the message length in bytes
+	const metadata = new Uint8Array(HISTOGRAM_METADATA_SIZE);
+	for (let i = 0; i < HISTOGRAM_SIGNATURE_SIZE; i++) {
+		metadata[i] = (i + 1) * 10;
+	}
+	HISTOGRAM_CHANNELS.forEach((channel, i) => {
+		const pair = pairs.find((pair) => pair.channel === channel);
+		metadata.set(
+			pair
+				? [pair.peakPoint, pair.zeroPoint, pair.shiftRight ? 1 : 0]
+				: [0, 0, HISTOGRAM_UNUSED_CHANNEL],
+			HISTOGRAM_SIGNATURE_SIZE + i * 3,
+		);
+	});
+	new DataView(metadata.buffer).setUint32(
+		HISTOGRAM_METADATA_SIZE - 4,
+		message.length,
+	);
+
+	for (let i = 0; i < HISTOGRAM_METADATA_SIZE; i++) {
+		data[histogramMetadataIndex(i)] = metadata[i];
+	}
+}
+
+interface HistogramMetadata {
+	pairs: HistogramPair[];
+	messageLength: number;
+}
+
+/**
+ * Reads the histogram shifting metadata from the first pixels of an image
+ *
+ * @param data - The image data array
+ * @returns The peak/zero pairs and the message length in bytes
+ * @throws NoPayloadError if the signature pattern is missing
+ */
+function readHistogramMetadata(data: Uint8ClampedArray): HistogramMetadata {
+	const metadata = new Uint8Array(HISTOGRAM_METADATA_SIZE);
+	for (let i = 0; i < HISTOGRAM_METADATA_SIZE; i++) {
+		metadata[i] = data[histogramMetadataIndex(i)];
+	}
+
+	// Check for the signature pattern
+	for (let i = 0; i < HISTOGRAM_SIGNATURE_SIZE; i++) {
+		if (metadata[i] !== (i + 1) * 10) {
+			throw new NoPayloadError(
+				"Invalid histogram shifting signature. This image may not contain hidden data or was encoded with a different technique.",
+			);
+		}
+	}
+
+	const pairs: HistogramPair[] = [];
+	HISTOGRAM_CHANNELS.forEach((channel, i) => {
+		const offset = HISTOGRAM_SIGNATURE_SIZE + i * 3;
+		if (metadata[offset + 2] !== HISTOGRAM_UNUSED_CHANNEL) {
+			pairs.push({
+				channel,
+				peakPoint: metadata[offset],
+				zeroPoint: metadata[offset + 1],
+				shiftRight: metadata[offset + 2] === 1,
+			});
+		}
+	});
+
+	return {
+		pairs,
+		messageLength: new DataView(metadata.buffer).getUint32(
+			HISTOGRAM_METADATA_SIZE - 4,
+		),
+	};
+}
+
+/**
+ * Reads the bytes embedded at the peak points, in scan order
+ *
+ * @param data - The image data array
+ * @param pairs - The peak/zero pairs
+ * @param bitCount - The number of bits to read, a multiple of 8
+ * @param onProgress - Optional callback told how many bits have been read
+ * @returns The embedded bytes, fewer if the peak points hold fewer bits
+ */
+function readHistogramBits(
+	data: Uint8ClampedArray,
+	pairs: HistogramPair[],
+	bitCount: number,
+	onProgress?: LoopProgress,
+): Uint8Array {
+	const bits = new Uint8Array(bitCount / 8);
+	let bitIndex = 0;
+
+	// Start from pixel 32 to skip the metadata area
+	for (
+		let i = HISTOGRAM_DATA_START * 4;
+		i < data.length && bitIndex < bitCount;
+		i += 4
+	) {
+		if (((i >> 2) & PROGRESS_MASK) === 0) onProgress?.(bitIndex, bitCount);
+		for (const { channel, peakPoint, shiftRight } of pairs) {
+			const pixelValue = data[i + channel];
+
+			if (pixelValue === peakPoint) {
+				// If pixel value is at peak point, bit is 0
+				setBit(bits, bitIndex++, 0);
+			} else if (
+				(shiftRight && pixelValue === peakPoint + 1) ||
+				(!shiftRight && pixelValue === peakPoint - 1)
+			) {
+				// If pixel value is at shifted peak point, bit is 1
+				setBit(bits, bitIndex++, 1);
+			}
+		}
+	}
+
+	// A pixel can hold bits in several channels, so the last one can overshoot
+	return bits.subarray(0, Math.floor(Math.min(bitIndex, bitCount) / 8));
+}
+
+/**
+ * Extracts a message hidden using Histogram Shifting
+ *
+ * @param data - The image data array
+ * @param bitCount - The maximum number of bits to extract
+ * @param onProgress - Optional callback told how many bits have been read
+ * @returns The bytes extracted from the image
+ */
+function extractHistogramShifting(
+	data: Uint8ClampedArray,
+	bitCount: number,
+	onProgress?: LoopProgress,
+): Uint8Array {
+	const { pairs, messageLength } = readHistogramMetadata(data);
+	return readHistogramBits(
+		data,
+		pairs,
+		Math.min(messageLength * 8, bitCount),
+		onProgress,
+	);
+}
+
+/**
+ * Restores the cover image of an image encoded with Histogram Shifting
+ *
+ * Undoes the embedding and the histogram shifts, puts back the values that
+ * were already at the zero points and the original values of the metadata
+ * pixels, giving the bit-exact original image.
+ *
+ * @param data - The image data array, restored in place
+ */
+function restoreHistogramShifting(data: Uint8ClampedArray): void {
+	const { pairs, messageLength } = readHistogramMetadata(data);
+	const messageBits = messageLength * 8;
+
+	// Read the restoration data before touching the peak values
+	const restoreData = readHistogramBits(
+		data,
+		pairs,
+		messageBits + HISTOGRAM_RESTORE_BITS,
+	).slice(messageLength);
+	if (restoreData.length * 8 < HISTOGRAM_RESTORE_BITS) {
+		throw new CorruptPayloadError(
+			"The data needed to restore the original image is missing.",
+		);
+	}
+	const mapLength = new DataView(restoreData.buffer).getUint32(
+		HISTOGRAM_METADATA_PIXELS * 3,
+	);
+
+	const locationMap = readHistogramBits(
+		data,
+		pairs,
+		messageBits + HISTOGRAM_RESTORE_BITS + mapLength * 8,
+	).subarray(messageLength + HISTOGRAM_RESTORE_BITS / 8);
+	if (locationMap.length < mapLength) {
+		throw new CorruptPayloadError("The location map is truncated.");
+	}
+
+	// Move 1 bits back onto the peaks and shift the other values back; values
+	// that were already at the zero points are put back from the location map
+	for (let i = HISTOGRAM_DATA_START * 4; i < data.length; i += 4) {
+		for (const { channel, peakPoint, zeroPoint, shiftRight } of pairs) {
+			const pixelValue = data[i + channel];
+
+			if (shiftRight) {
+				if (pixelValue > peakPoint && pixelValue <= zeroPoint) {
+					data[i + channel] = pixelValue - 1;
+				}
+			} else {
+				if (pixelValue < peakPoint && pixelValue >= zeroPoint) {
+					data[i + channel] = pixelValue + 1;
+				}
+			}
+		}
+	}
+	applyLocationMap(data, pairs, locationMap);
+
+	// Put back the original metadata pixel values
+	for (let i = 0; i < HISTOGRAM_METADATA_PIXELS * 3; i++) {
+		data[histogramMetadataIndex(i)] = restoreData[i];
+	}
+}
+
+// Quality used when converting a cover image that is not a JPEG
+const JPEG_QUALITY = 90;
+
+// Key used to shuffle the DCT coefficients when no stego key is given
+const DEFAULT_JPEG_KEY = "jpeg";
+
+// Bits before the payload holding the F5 matrix encoding parameter k
+const F5_PARAMETER_BITS = 8;
+
+// Largest k for matrix encoding, which hides k bits in 2^k - 1 coefficients
+// by changing at most one of them
+const F5_MAX_K = 7;
+
+/**
+ * Returns the key-seeded order in which the DCT coefficients are visited
+ *
+ * @param length - The number of AC coefficients
+ * @param key - Optional stego key
+ * @returns A permutation of the coefficient indices
+ */
+function getCoefficientOrder(length: number, key?: string): Uint32Array {
+	return keyedPermutation(length, length, key || DEFAULT_JPEG_KEY);
+}
+
+/**
+ * Gets the bit an F5 coefficient holds
+ *
+ * Negative coefficients hold the inverse of their LSB, so that decrementing
+ * the magnitude of any coefficient flips its bit.
+ *
+ * @param coefficient - A nonzero DCT coefficient
+ * @returns The bit held by the coefficient
+ */
+function f5Bit(coefficient: number): number {
+	return coefficient > 0 ? coefficient & 1 : 1 - (-coefficient & 1);
+}
+
+/**
+ * Counts the coefficients F5 can always use
+ *
+ * Coefficients of magnitude 1 may shrink to 0 and be skipped, so only those
+ * of magnitude 2 or more are sure to carry data.
+ *
+ * @param coefficients - The AC coefficients
+ * @returns The number of coefficients of magnitude 2 or more
+ */
+function f5UsableCount(coefficients: Int16Array): number {
+	let count = 0;
+	for (let i = 0; i < coefficients.length; i++) {
+		if (coefficients[i] > 1 || coefficients[i] < -1) count++;
+	}
+	return count;
+}
+
+/**
+ * Computes how many bits F5 can embed for sure with a matrix encoding parameter
+ *
+ * @param usable - The number of coefficients of magnitude 2 or more
+ * @param k - The matrix encoding parameter
+ * @returns The number of payload bits
+ */
+function f5Capacity(usable: number, k: number): number {
+	const groups = Math.floor((usable - F5_PARAMETER_BITS) / ((1 << k) - 1));
+	return Math.max(groups, 0) * k;
+}
+
+/**
+ * Applies the F5 technique to hide a message in the DCT coefficients of a JPEG
+ *
+ * Bits are embedded in the nonzero AC coefficients, in key-seeded order, by
+ * decrementing their magnitude. Matrix encoding hides k bits in each group of
+ * 2^k - 1 coefficients by changing at most one of them, with k as large as
+ * the message allows.
+ *
+ * @param coefficients - The AC coefficients, modified in place
+ * @param message - The bytes to hide
+ * @param order - The order in which the coefficients are visited
+ * @param onProgress - Optional callback told how many message bits have been embedded
+ */
+function applyF5(
+	coefficients: Int16Array,
+	message: Uint8Array,
+	order: Uint32Array,
+	onProgress?: LoopProgress,
+): void {
+	let position = 0;
+	const nextCoefficient = (): number => {
+		while (position < order.length) {
+			const i = order[position++];
+			if (coefficients[i] !== 0) return i;
+		}
+		throw new Error("The cover image ran out of DCT coefficients.");
+	};
+
+	const usable = f5UsableCount(coefficients);
+	let k = 1;
+	while (k < F5_MAX_K && f5Capacity(usable, k + 1) >= message.length * 8) {
+		k++;
+	}
+
+	// The parameter is embedded without matrix encoding so it can be read first
+	const parameter = new Uint8Array(F5_PARAMETER_BITS / 8);
+	writeBits(parameter, 0, F5_PARAMETER_BITS, k);
+	embedF5Groups(coefficients, parameter, 1, nextCoefficient);
+	embedF5Groups(coefficients, message, k, nextCoefficient, onProgress);
+}
+
+/**
+ * Embeds bits with F5 matrix encoding
+ *
+ * @param coefficients - The AC coefficients, modified in place
+ * @param bits - The bytes to embed
+ * @param k - The matrix encoding parameter
+ * @param nextCoefficient - Returns the index of the next nonzero coefficient
+ * @param onProgress - Optional callback told how many bits have been embedded
+ */
+function embedF5Groups(
+	coefficients: Int16Array,
+	bits: Uint8Array,
+	k: number,
+	nextCoefficient: () => number,
+	onProgress?: LoopProgress,
+): void {
+	const groupSize = (1 << k) - 1;
+
+	for (let bitIndex = 0; bitIndex < bits.length * 8; bitIndex += k) {
+		// Groups hold k bits, so check whenever a group crosses an interval
+		if ((bitIndex & PROGRESS_MASK) < k) {
+			onProgress?.(bitIndex, bits.length * 8);
+		}
+		// The last group is padded with 0 bits
+		const target = readBits(bits, bitIndex, k);
+		const group: number[] = [];
+
+		for (;;) {
+			while (group.length < groupSize) {
+				group.push(nextCoefficient());
+			}
+
+			// The group holds the XOR of the (1-based) positions of its 1 bits
+			let hash = 0;
+			group.forEach((i, j) => {
+				if (f5Bit(coefficients[i])) hash ^= j + 1;
+			});
+
+			const change = hash ^ target;
+			if (change === 0) break;
+
+			const i = group[change - 1];
+			coefficients[i] += coefficients[i] > 0 ? -1 : 1;
+			if (coefficients[i] !== 0) break;
+
+			// Shrinkage: the coefficient became 0 and will be skipped by the
+			// extractor, so embed again without it
+			group.splice(change - 1, 1);
+		}
+	}
+}
+
+/**
+ * Extracts a message hidden using the F5 technique
+ *
+ * @param coefficients - The AC coefficients
+ * @param order - The order in which the coefficients are visited
+ * @param bitCount - The number of bits to extract, a multiple of 8
+ * @param onProgress - Optional callback told how many message bits have been read
+ * @returns The bytes extracted from the image, fewer if the image holds fewer bits
+ * @throws NoPayloadError if the matrix encoding parameter is invalid
+ */
+function extractF5(
+	coefficients: Int16Array,
+	order: Uint32Array,
+	bitCount: number,
+	onProgress?: LoopProgress,
+): Uint8Array {
+	let position = 0;
+	const nextCoefficient = (): number => {
+		while (position < order.length) {
+			const i = order[position++];
+			if (coefficients[i] !== 0) return i;
+		}
+		return -1;
+	};
+
+	const readGroups = (
+		count: number,
+		k: number,
+		progress?: LoopProgress,
+	): Uint8Array => {
+		const groupSize = (1 << k) - 1;
+		const bits = new Uint8Array(count / 8);
+
+		for (let bitIndex = 0; bitIndex < count; bitIndex += k) {
+			if ((bitIndex & PROGRESS_MASK) < k) progress?.(bitIndex, count);
+			let hash = 0;
+			for (let j = 0; j < groupSize; j++) {
+				const i = nextCoefficient();
+				if (i < 0) return bits.subarray(0, Math.floor(bitIndex / 8));
+				if (f5Bit(coefficients[i])) hash ^= j + 1;
+			}
+			writeBits(bits, bitIndex, k, hash);
+		}
+
+		return bits;
+	};
+
+	const k = readGroups(F5_PARAMETER_BITS, 1)[0];
+	if (!(k >= 1 && k <= F5_MAX_K)) {
+		throw new NoPayloadError();
+	}
+
+	return readGroups(bitCount, k, onProgress);
+}
@@ -0,0 +1,117 @@
+/**
+ * Payload Encryption
+ *
+ * Encrypts payloads with AES-256-GCM using a key derived from a passphrase
+ * with PBKDF2-SHA-256. The encrypted form is laid out as:
+ *
+ * | Offset | Size | Field                          |
+ * | ------ | ---- | ------------------------------ |
+ * | 0      | 16   | PBKDF2 salt                    |
+ * | 16     | 12   | AES-GCM initialization vector  |
+ * | 28     | n    | Ciphertext followed by the tag |
+ */
+
+const SALT_SIZE = 16;
+const IV_SIZE = 12;
+const PBKDF2_ITERATIONS = 310000;
+const TAG_SIZE = 16;
+
+// Number of bytes encryption adds to a payload
+export const ENCRYPTION_OVERHEAD = SALT_SIZE + IV_SIZE + TAG_SIZE;
+
+/**
+ * Thrown when an encrypted payload cannot be decrypted
+ */
+export class DecryptionError extends Error {
+	constructor(
+		message = "Decryption failed: wrong passphrase or the hidden data has been tampered with.",
+	) {
+		super(message);
+		this.name = "DecryptionError";
+	}
+}
+
+/**
+ * Encrypts a payload with a passphrase
+ *
+ * @param payload - The bytes to encrypt
+ * @param passphrase - The passphrase to derive the key from
+ * @returns A Promise that resolves to the salt, IV and ciphertext
+ */
+export async function encryptPayload(
+	payload: Uint8Array,
+	passphrase: string,
+): Promise<Uint8Array> {
+	const salt = crypto.getRandomValues(new Uint8Array(SALT_SIZE));
+	const iv = crypto.getRandomValues(new Uint8Array(IV_SIZE));
+	const key = await deriveKey(passphrase, salt);
+
+	const ciphertext = new Uint8Array(
+		await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, payload),
+	);
+
+	const encrypted = new Uint8Array(SALT_SIZE + IV_SIZE + ciphertext.length);
+	encrypted.set(salt, 0);
+	encrypted.set(iv, SALT_SIZE);
+	encrypted.set(ciphertext, SALT_SIZE + IV_SIZE);
+	return encrypted;
+}
+
+/**
+ * Decrypts a payload previously encrypted with encryptPayload
+ *
+ * @param encrypted - The salt, IV and ciphertext
+ * @param passphrase - The passphrase used for encryption
+ * @returns A Promise that resolves to the decrypted bytes
+ * @throws DecryptionError if the passphrase is wrong or the data was modified
+ */
+export async function decryptPayload(
+	encrypted: Uint8Array,
+	passphrase: string,
+): Promise<Uint8Array> {
+	if (encrypted.length < SALT_SIZE + IV_SIZE) {
+		throw new DecryptionError("Encrypted payload is too short.");
+	}
+
+	const salt = encrypted.subarray(0, SALT_SIZE);
+	const iv = encrypted.subarray(SALT_SIZE, SALT_SIZE + IV_SIZE);
+	const ciphertext = encrypted.subarray(SALT_SIZE + IV_SIZE);
+	const key = await deriveKey(passphrase, salt);
+
+	try {
+		return new Uint8Array(
+			await crypto.subtle.decrypt({ name: "AES-GCM", iv }, key, ciphertext),
+		);
+	} catch {
+		// WebCrypto reports a failed authentication tag check as an OperationError
+		throw new DecryptionError();
+	}
+}
+
+/**
+ * Derives an AES-GCM key from a passphrase
+ *
+ * @param passphrase - The passphrase to derive the key from
+ * @param salt - The random salt
+ * @returns A Promise that resolves to the derived key
+ */
+async function deriveKey(
+	passphrase: string,
+	salt: Uint8Array,
+): Promise<CryptoKey> {
+	const baseKey = await crypto.subtle.importKey(
+		"raw",
+		new TextEncoder().encode(passphrase),
+		"PBKDF2",
+		false,
+		["deriveKey"],
+	);
+
+	return crypto.subtle.deriveKey(
+		{ name: "PBKDF2", salt, iterations: PBKDF2_ITERATIONS, hash: "SHA-256" },
+		baseKey,
+		{ name: "AES-GCM", length: 256 },
+		false,
+		["encrypt", "decrypt"],
+	);
+}
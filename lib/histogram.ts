@@ -32,7 +32,11 @@ export function findPeakPoint(histogram: number[]): number {
 }
 
 /**
- * Finds a suitable zero point (least frequent non-zero value) near the peak
+ * Finds a suitable zero point (least frequent value) near the peak
+ *
+ * Among the least frequent values, the one closest to the peak wins. A value
+ * next to the peak is only chosen if it is empty, as its pixels would
+ * otherwise be indistinguishable from embedded bits.
  *
  * @param histogram - The histogram array
  * @param peakPoint - The peak point to search around
@@ -42,21 +46,20 @@ export function findPeakPoint(histogram: number[]): number {
 export function findZeroPoint(
 	histogram: number[],
 	peakPoint: number,
-	searchRange = 20,
+	searchRange = 255,
 ): number {
-	// Start with a point adjacent to the peak
-	let zeroPoint = peakPoint > 127 ? peakPoint - 1 : peakPoint + 1;
-	let minValue = histogram[zeroPoint];
-
-	// Define search boundaries
-	const lowerBound = Math.max(1, peakPoint - searchRange);
-	const upperBound = Math.min(254, peakPoint + searchRange);
-
-	// Find the minimum non-zero value within range
-	for (let i = lowerBound; i <= upperBound; i++) {
-		if (i !== peakPoint && histogram[i] < minValue && histogram[i] > 0) {
-			minValue = histogram[i];
-			zeroPoint = i;
+	let zeroPoint = -1;
+
+	for (let distance = 1; distance <= searchRange; distance++) {
+		for (const candidate of [peakPoint + distance, peakPoint - distance]) {
+			if (
+				candidate >= 0 &&
+				candidate <= 255 &&
+				(histogram[candidate] === 0 || distance > 1) &&
+				(zeroPoint === -1 || histogram[candidate] < histogram[zeroPoint])
+			) {
+				zeroPoint = candidate;
+			}
 		}
 	}
 
@@ -108,8 +111,11 @@ export function visualizeHistogram(
 		ctx.fillRect(peakPoint, height - peakHeight, 1, peakHeight);
 	}
 
-	// Highlight zero point if provided
+	// Highlight zero point if provided, with a full-height marker as the bar
+	// itself is usually empty
 	if (zeroPoint !== undefined) {
+		ctx.fillStyle = "rgba(0, 0, 255, 0.25)";
+		ctx.fillRect(zeroPoint, 0, 1, height);
 		ctx.fillStyle = "#0000ff";
 		const zeroHeight = (histogram[zeroPoint] / maxValue) * height;
 		ctx.fillRect(zeroPoint, height - zeroHeight, 1, zeroHeight);
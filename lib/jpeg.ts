@@ -0,0 +1,1150 @@
+/**
+ * JPEG Coefficient Codec
+ *
+ * Reads and writes the quantized DCT coefficients of JPEG images, so data can
+ * be hidden in them without decoding to pixels and recompressing. Decodes
+ * baseline, extended sequential and progressive Huffman-coded JPEGs with
+ * 8-bit samples, and encodes baseline JPEGs with the standard Huffman tables.
+ *
+ * Coefficients and quantization tables are kept in zigzag order, the order
+ * they are stored in the file, so index 0 of each block is the DC coefficient.
+ */
+
+/**
+ * Thrown when a JPEG is malformed or uses features the codec does not support
+ */
+export class JpegError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "JpegError";
+	}
+}
+
+export interface JpegComponent {
+	id: number;
+	/** Horizontal sampling factor */
+	h: number;
+	/** Vertical sampling factor */
+	v: number;
+	/** Index of the quantization table */
+	quantTable: number;
+	/** Blocks per row, padded to whole MCUs */
+	blocksPerLine: number;
+	/** Blocks per column, padded to whole MCUs */
+	blocksPerColumn: number;
+	/** 64 coefficients per block, blocks in row-major order */
+	coefficients: Int16Array;
+}
+
+export interface JpegImage {
+	width: number;
+	height: number;
+	/** Quantization tables by index, undefined for unused indices */
+	quantTables: (Uint16Array | undefined)[];
+	components: JpegComponent[];
+	/** APPn and COM segments, marker included, written back unchanged */
+	segments: Uint8Array[];
+}
+
+interface HuffmanTable {
+	maxCode: Int32Array;
+	valuePointer: Int32Array;
+	minCode: Int32Array;
+	values: Uint8Array;
+}
+
+interface ScanComponent {
+	component: JpegComponent;
+	dcTable?: HuffmanTable;
+	acTable?: HuffmanTable;
+	predictor: number;
+}
+
+// Natural (row-major) index of each zigzag position
+const ZIGZAG = [
+	0, 1, 8, 16, 9, 2, 3, 10, 17, 24, 32, 25, 18, 11, 4, 5, 12, 19, 26, 33, 40,
+	48, 41, 34, 27, 20, 13, 6, 7, 14, 21, 28, 35, 42, 49, 56, 57, 50, 43, 36, 29,
+	22, 15, 23, 30, 37, 44, 51, 58, 59, 52, 45, 38, 31, 39, 46, 53, 60, 61, 54,
+	47, 55, 62, 63,
+];
+
+// Standard quantization tables from Annex K of the JPEG specification, in
+// natural order
+const LUMINANCE_QUANT_TABLE = [
+	16, 11, 10, 16, 24, 40, 51, 61, 12, 12, 14, 19, 26, 58, 60, 55, 14, 13, 16,
+	24, 40, 57, 69, 56, 14, 17, 22, 29, 51, 87, 80, 62, 18, 22, 37, 56, 68, 109,
+	103, 77, 24, 35, 55, 64, 81, 104, 113, 92, 49, 64, 78, 87, 103, 121, 120, 101,
+	72, 92, 95, 98, 112, 100, 103, 99,
+];
+const CHROMINANCE_QUANT_TABLE = [
+	17, 18, 24, 47, 99, 99, 99, 99, 18, 21, 26, 66, 99, 99, 99, 99, 24, 26, 56,
+	99, 99, 99, 99, 99, 47, 66, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99,
+	99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99,
+	99, 99, 99, 99, 99, 99, 99,
+];
+
+// Standard Huffman tables from Annex K: the number of codes of each length
+// from 1 to 16 bits, followed by the symbols in code order
+const DC_LUMINANCE_BITS = [0, 1, 5, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0, 0, 0];
+const DC_CHROMINANCE_BITS = [0, 3, 1, 1, 1, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0];
+const DC_VALUES = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11];
+const AC_LUMINANCE_BITS = [0, 2, 1, 3, 3, 2, 4, 3, 5, 5, 4, 4, 0, 0, 1, 0x7d];
+const AC_LUMINANCE_VALUES = [
+	0x01, 0x02, 0x03, 0x00, 0x04, 0x11, 0x05, 0x12, 0x21, 0x31, 0x41, 0x06, 0x13,
+	0x51, 0x61, 0x07, 0x22, 0x71, 0x14, 0x32, 0x81, 0x91, 0xa1, 0x08, 0x23, 0x42,
+	0xb1, 0xc1, 0x15, 0x52, 0xd1, 0xf0, 0x24, 0x33, 0x62, 0x72, 0x82, 0x09, 0x0a,
+	0x16, 0x17, 0x18, 0x19, 0x1a, 0x25, 0x26, 0x27, 0x28, 0x29, 0x2a, 0x34, 0x35,
+	0x36, 0x37, 0x38, 0x39, 0x3a, 0x43, 0x44, 0x45, 0x46, 0x47, 0x48, 0x49, 0x4a,
+	0x53, 0x54, 0x55, 0x56, 0x57, 0x58, 0x59, 0x5a, 0x63, 0x64, 0x65, 0x66, 0x67,
+	0x68, 0x69, 0x6a, 0x73, 0x74, 0x75, 0x76, 0x77, 0x78, 0x79, 0x7a, 0x83, 0x84,
+	0x85, 0x86, 0x87, 0x88, 0x89, 0x8a, 0x92, 0x93, 0x94, 0x95, 0x96, 0x97, 0x98,
+	0x99, 0x9a, 0xa2, 0xa3, 0xa4, 0xa5, 0xa6, 0xa7, 0xa8, 0xa9, 0xaa, 0xb2, 0xb3,
+	0xb4, 0xb5, 0xb6, 0xb7, 0xb8, 0xb9, 0xba, 0xc2, 0xc3, 0xc4, 0xc5, 0xc6, 0xc7,
+	0xc8, 0xc9, 0xca, 0xd2, 0xd3, 0xd4, 0xd5, 0xd6, 0xd7, 0xd8, 0xd9, 0xda, 0xe1,
+	0xe2, 0xe3, 0xe4, 0xe5, 0xe6, 0xe7, 0xe8, 0xe9, 0xea, 0xf1, 0xf2, 0xf3, 0xf4,
+	0xf5, 0xf6, 0xf7, 0xf8, 0xf9, 0xfa,
+];
+const AC_CHROMINANCE_BITS = [0, 2, 1, 2, 4, 4, 3, 4, 7, 5, 4, 4, 0, 1, 2, 0x77];
+const AC_CHROMINANCE_VALUES = [
+	0x00, 0x01, 0x02, 0x03, 0x11, 0x04, 0x05, 0x21, 0x31, 0x06, 0x12, 0x41, 0x51,
+	0x07, 0x61, 0x71, 0x13, 0x22, 0x32, 0x81, 0x08, 0x14, 0x42, 0x91, 0xa1, 0xb1,
+	0xc1, 0x09, 0x23, 0x33, 0x52, 0xf0, 0x15, 0x62, 0x72, 0xd1, 0x0a, 0x16, 0x24,
+	0x34, 0xe1, 0x25, 0xf1, 0x17, 0x18, 0x19, 0x1a, 0x26, 0x27, 0x28, 0x29, 0x2a,
+	0x35, 0x36, 0x37, 0x38, 0x39, 0x3a, 0x43, 0x44, 0x45, 0x46, 0x47, 0x48, 0x49,
+	0x4a, 0x53, 0x54, 0x55, 0x56, 0x57, 0x58, 0x59, 0x5a, 0x63, 0x64, 0x65, 0x66,
+	0x67, 0x68, 0x69, 0x6a, 0x73, 0x74, 0x75, 0x76, 0x77, 0x78, 0x79, 0x7a, 0x82,
+	0x83, 0x84, 0x85, 0x86, 0x87, 0x88, 0x89, 0x8a, 0x92, 0x93, 0x94, 0x95, 0x96,
+	0x97, 0x98, 0x99, 0x9a, 0xa2, 0xa3, 0xa4, 0xa5, 0xa6, 0xa7, 0xa8, 0xa9, 0xaa,
+	0xb2, 0xb3, 0xb4, 0xb5, 0xb6, 0xb7, 0xb8, 0xb9, 0xba, 0xc2, 0xc3, 0xc4, 0xc5,
+	0xc6, 0xc7, 0xc8, 0xc9, 0xca, 0xd2, 0xd3, 0xd4, 0xd5, 0xd6, 0xd7, 0xd8, 0xd9,
+	0xda, 0xe2, 0xe3, 0xe4, 0xe5, 0xe6, 0xe7, 0xe8, 0xe9, 0xea, 0xf2, 0xf3, 0xf4,
+	0xf5, 0xf6, 0xf7, 0xf8, 0xf9, 0xfa,
+];
+
+// Maximum number of blocks in an MCU of an interleaved scan
+const MAX_BLOCKS_PER_MCU = 10;
+
+// Largest image, in pixels, that is decoded; bigger ones would exhaust memory
+const MAX_PIXELS = 50_000_000;
+
+// Maximum number of components in a frame: grayscale, YCbCr or CMYK
+const MAX_COMPONENTS = 4;
+
+/**
+ * Checks whether bytes start with the JPEG start of image marker
+ *
+ * @param bytes - The file contents
+ * @returns True if the bytes look like a JPEG
+ */
+export function isJpeg(bytes: Uint8Array): boolean {
+	return bytes.length > 2 && bytes[0] === 0xff && bytes[1] === 0xd8;
+}
+
+/**
+ * Decodes the quantized DCT coefficients of a JPEG
+ *
+ * @param bytes - The JPEG file contents
+ * @returns The image structure and coefficients
+ * @throws JpegError if the JPEG is malformed or unsupported
+ */
+export function decodeJpeg(bytes: Uint8Array): JpegImage {
+	if (!isJpeg(bytes)) {
+		throw new JpegError("Not a JPEG file");
+	}
+
+	const quantTables: (Uint16Array | undefined)[] = [];
+	const dcTables: (HuffmanTable | undefined)[] = [];
+	const acTables: (HuffmanTable | undefined)[] = [];
+	const segments: Uint8Array[] = [];
+	let frame: Omit<JpegImage, "quantTables" | "segments"> | null = null;
+	let progressive = false;
+	let restartInterval = 0;
+	let offset = 2;
+
+	while (offset < bytes.length) {
+		if (bytes[offset] !== 0xff) {
+			throw new JpegError("Invalid JPEG marker");
+		}
+		const marker = bytes[offset + 1];
+		offset += 2;
+
+		// Fill bytes before a marker
+		if (marker === 0xff) {
+			offset--;
+			continue;
+		}
+		// End of image
+		if (marker === 0xd9) break;
+
+		const length = readUint16(bytes, offset);
+		const end = offset + length;
+		if (length < 2 || end > bytes.length) {
+			throw new JpegError("Truncated JPEG segment");
+		}
+
+		switch (marker) {
+			case 0xdb: // DQT
+				for (let i = offset + 2; i < end;) {
+					const precision = bytes[i] >> 4;
+					const table = new Uint16Array(64);
+					for (let j = 0; j < 64; j++) {
+						table[j] = precision
+							? readUint16(bytes, i + 1 + j * 2)
+							: bytes[i + 1 + j];
+					}
+					quantTables[bytes[i] & 0x0f] = table;
+					i += 1 + (precision ? 128 : 64);
+				}
+				break;
+			case 0xc4: // DHT
+				for (let i = offset + 2; i < end;) {
+					const bits = Array.from(bytes.subarray(i + 1, i + 17));
+					const count = bits.reduce((sum, n) => sum + n, 0);
+					const table = buildHuffmanTable(
+						bits,
+						bytes.subarray(i + 17, i + 17 + count),
+					);
+					(bytes[i] >> 4 ? acTables : dcTables)[bytes[i] & 0x0f] = table;
+					i += 17 + count;
+				}
+				break;
+			case 0xc0: // SOF0, baseline
+			case 0xc1: // SOF1, extended sequential
+			case 0xc2: // SOF2, progressive
+				if (frame) {
+					throw new JpegError("JPEGs with several frames are not supported");
+				}
+				progressive = marker === 0xc2;
+				frame = readFrame(bytes, offset);
+				break;
+			case 0xc3:
+			case 0xc5:
+			case 0xc6:
+			case 0xc7:
+			case 0xc9:
+			case 0xca:
+			case 0xcb:
+			case 0xcd:
+			case 0xce:
+			case 0xcf:
+				throw new JpegError(
+					"Lossless, hierarchical and arithmetic-coded JPEGs are not supported",
+				);
+			case 0xdd: // DRI
+				restartInterval = readUint16(bytes, offset + 2);
+				break;
+			case 0xda: {
+				// SOS
+				if (!frame) {
+					throw new JpegError("Scan before frame header");
+				}
+				const scanFrame = frame;
+				const count = bytes[offset + 2];
+				const scanComponents: ScanComponent[] = [];
+				for (let i = 0; i < count; i++) {
+					const id = bytes[offset + 3 + i * 2];
+					const tables = bytes[offset + 4 + i * 2];
+					const component = scanFrame.components.find((c) => c.id === id);
+					if (!component) {
+						throw new JpegError("Scan refers to an unknown component");
+					}
+					scanComponents.push({
+						component,
+						dcTable: dcTables[tables >> 4],
+						acTable: acTables[tables & 0x0f],
+						predictor: 0,
+					});
+				}
+				const parameters = offset + 3 + count * 2;
+				offset = decodeScan(
+					bytes,
+					end,
+					scanFrame,
+					scanComponents,
+					restartInterval,
+					progressive
+						? {
+								spectralStart: bytes[parameters],
+								spectralEnd: bytes[parameters + 1],
+								successivePrevious: bytes[parameters + 2] >> 4,
+								successive: bytes[parameters + 2] & 0x0f,
+							}
+						: null,
+				);
+				continue;
+			}
+			default:
+				if ((marker >= 0xe0 && marker <= 0xef) || marker === 0xfe) {
+					// APPn and COM segments are kept so metadata survives
+					segments.push(bytes.slice(offset - 2, end));
+				}
+				break;
+		}
+
+		offset = end;
+	}
+
+	if (!frame) {
+		throw new JpegError("JPEG has no frame header");
+	}
+
+	return { ...frame, quantTables, segments };
+}
+
+/**
+ * Encodes a baseline JPEG from quantized DCT coefficients
+ *
+ * @param image - The image structure and coefficients
+ * @returns The JPEG file contents
+ * @throws JpegError if a coefficient is out of range for a baseline JPEG
+ */
+export function encodeJpeg(image: JpegImage): Uint8Array {
+	const out: number[] = [0xff, 0xd8];
+
+	for (const segment of image.segments) {
+		pushBytes(out, segment);
+	}
+
+	// Extended sequential frames allow 16-bit quantization tables
+	let extended = false;
+	image.quantTables.forEach((table, index) => {
+		if (!table) return;
+		const precision = table.some((value) => value > 255) ? 1 : 0;
+		extended ||= precision === 1;
+		writeMarker(out, 0xdb, [
+			(precision << 4) | index,
+			...(precision
+				? Array.from(table).flatMap((value) => [value >> 8, value & 0xff])
+				: table),
+		]);
+	});
+
+	writeMarker(out, extended ? 0xc1 : 0xc0, [
+		8,
+		image.height >> 8,
+		image.height & 0xff,
+		image.width >> 8,
+		image.width & 0xff,
+		image.components.length,
+		...image.components.flatMap((c) => [c.id, (c.h << 4) | c.v, c.quantTable]),
+	]);
+
+	const tables = [
+		{
+			dc: [DC_LUMINANCE_BITS, DC_VALUES],
+			ac: [AC_LUMINANCE_BITS, AC_LUMINANCE_VALUES],
+		},
+		{
+			dc: [DC_CHROMINANCE_BITS, DC_VALUES],
+			ac: [AC_CHROMINANCE_BITS, AC_CHROMINANCE_VALUES],
+		},
+	];
+	tables.forEach(({ dc, ac }, index) => {
+		writeMarker(out, 0xc4, [
+			index,
+			...dc[0],
+			...dc[1],
+			0x10 | index,
+			...ac[0],
+			...ac[1],
+		]);
+	});
+	const codes = tables.map(({ dc, ac }) => ({
+		dc: buildHuffmanCodes(dc[0], dc[1]),
+		ac: buildHuffmanCodes(ac[0], ac[1]),
+	}));
+
+	// Interleave all components in one scan when the MCU is small enough,
+	// otherwise write a scan per component
+	const blocksPerMcu = image.components.reduce((sum, c) => sum + c.h * c.v, 0);
+	const scans =
+		image.components.length > 1 && blocksPerMcu <= MAX_BLOCKS_PER_MCU
+			? [image.components]
+			: image.components.map((component) => [component]);
+
+	for (const scan of scans) {
+		writeMarker(out, 0xda, [
+			scan.length,
+			...scan.flatMap((c) => {
+				const table = image.components.indexOf(c) === 0 ? 0 : 1;
+				return [c.id, (table << 4) | table];
+			}),
+			0,
+			63,
+			0,
+		]);
+		encodeScan(out, image, scan, codes);
+	}
+
+	out.push(0xff, 0xd9);
+	return Uint8Array.from(out);
+}
+
+/**
+ * Converts RGBA pixels to JPEG coefficients, as a JPEG encoder would
+ *
+ * Uses YCbCr without chroma subsampling and the standard quantization tables
+ * scaled to the quality. Transparent pixels are composited over white.
+ *
+ * @param data - The RGBA pixel data
+ * @param width - The width of the image
+ * @param height - The height of the image
+ * @param quality - The JPEG quality, from 1 to 100
+ * @returns The image structure and coefficients
+ */
+export function pixelsToJpeg(
+	data: Uint8ClampedArray,
+	width: number,
+	height: number,
+	quality: number,
+): JpegImage {
+	const scale = quality < 50 ? 5000 / quality : 200 - quality * 2;
+	const quantTables = [LUMINANCE_QUANT_TABLE, CHROMINANCE_QUANT_TABLE].map(
+		(table) =>
+			Uint16Array.from(ZIGZAG, (natural) =>
+				Math.min(
+					Math.max(Math.floor((table[natural] * scale + 50) / 100), 1),
+					255,
+				),
+			),
+	);
+
+	const blocksPerLine = Math.ceil(width / 8);
+	const blocksPerColumn = Math.ceil(height / 8);
+	const components = [1, 2, 3].map((id) => ({
+		id,
+		h: 1,
+		v: 1,
+		quantTable: id === 1 ? 0 : 1,
+		blocksPerLine,
+		blocksPerColumn,
+		coefficients: new Int16Array(blocksPerLine * blocksPerColumn * 64),
+	}));
+
+	const block = [
+		new Float64Array(64),
+		new Float64Array(64),
+		new Float64Array(64),
+	];
+	for (let blockRow = 0; blockRow < blocksPerColumn; blockRow++) {
+		for (let blockCol = 0; blockCol < blocksPerLine; blockCol++) {
+			for (let y = 0; y < 8; y++) {
+				for (let x = 0; x < 8; x++) {
+					// Repeat the edge pixels to fill partial blocks
+					const px = Math.min(blockCol * 8 + x, width - 1);
+					const py = Math.min(blockRow * 8 + y, height - 1);
+					const i = (py * width + px) * 4;
+					const alpha = data[i + 3] / 255;
+					const r = data[i] * alpha + 255 * (1 - alpha);
+					const g = data[i + 1] * alpha + 255 * (1 - alpha);
+					const b = data[i + 2] * alpha + 255 * (1 - alpha);
+
+					block[0][y * 8 + x] = 0.299 * r + 0.587 * g + 0.114 * b - 128;
+					block[1][y * 8 + x] = -0.168736 * r - 0.331264 * g + 0.5 * b;
+					block[2][y * 8 + x] = 0.5 * r - 0.418688 * g - 0.081312 * b;
+				}
+			}
+
+			const offset = (blockRow * blocksPerLine + blockCol) * 64;
+			components.forEach((component, c) => {
+				const coefficients = forwardDct(block[c]);
+				const table = quantTables[component.quantTable];
+				for (let k = 0; k < 64; k++) {
+					component.coefficients[offset + k] = Math.round(
+						coefficients[ZIGZAG[k]] / table[k],
+					);
+				}
+			});
+		}
+	}
+
+	return {
+		width,
+		height,
+		quantTables,
+		components,
+		// JFIF APP0 segment, version 1.01, no density or thumbnail
+		segments: [
+			Uint8Array.from([
+				0xff, 0xe0, 0x00, 0x10, 0x4a, 0x46, 0x49, 0x46, 0x00, 0x01, 0x01, 0x00,
+				0x00, 0x01, 0x00, 0x01, 0x00, 0x00,
+			]),
+		],
+	};
+}
+
+/**
+ * Counts the blocks of a component that hold image data
+ *
+ * Blocks beyond these only pad the last MCUs and are not always stored.
+ *
+ * @param image - The image structure
+ * @param component - The component
+ * @returns The number of block columns and rows covering the image
+ */
+export function componentBlocks(
+	image: JpegImage,
+	component: JpegComponent,
+): { columns: number; rows: number } {
+	const hMax = Math.max(...image.components.map((c) => c.h));
+	const vMax = Math.max(...image.components.map((c) => c.v));
+	return {
+		columns: Math.ceil(Math.ceil((image.width * component.h) / hMax) / 8),
+		rows: Math.ceil(Math.ceil((image.height * component.v) / vMax) / 8),
+	};
+}
+
+/**
+ * Parses a frame header
+ *
+ * @param bytes - The JPEG file contents
+ * @param offset - The offset of the segment length
+ * @returns The image size and components
+ * @throws JpegError if the frame is unsupported
+ */
+function readFrame(
+	bytes: Uint8Array,
+	offset: number,
+): Omit<JpegImage, "quantTables" | "segments"> {
+	if (bytes[offset + 2] !== 8) {
+		throw new JpegError("Only JPEGs with 8-bit samples are supported");
+	}
+
+	const height = readUint16(bytes, offset + 3);
+	const width = readUint16(bytes, offset + 5);
+	if (!width || !height) {
+		throw new JpegError(
+			"JPEGs without a height in the frame are not supported",
+		);
+	}
+	if (width * height > MAX_PIXELS) {
+		throw new JpegError(
+			`JPEGs larger than ${MAX_PIXELS.toLocaleString("en-US")} pixels are not supported`,
+		);
+	}
+
+	const count = bytes[offset + 7];
+	const sampling = Array.from({ length: count }, (_, i) => ({
+		id: bytes[offset + 8 + i * 3],
+		h: bytes[offset + 9 + i * 3] >> 4,
+		v: bytes[offset + 9 + i * 3] & 0x0f,
+		quantTable: bytes[offset + 10 + i * 3],
+	}));
+	const hMax = Math.max(...sampling.map((c) => c.h));
+	const vMax = Math.max(...sampling.map((c) => c.v));
+	if (!count || count > MAX_COMPONENTS || !hMax || !vMax) {
+		throw new JpegError("Invalid JPEG frame header");
+	}
+
+	const mcusPerLine = Math.ceil(width / (8 * hMax));
+	const mcusPerColumn = Math.ceil(height / (8 * vMax));
+	const components = sampling.map((c) => {
+		const blocksPerLine = mcusPerLine * c.h;
+		const blocksPerColumn = mcusPerColumn * c.v;
+		return {
+			...c,
+			blocksPerLine,
+			blocksPerColumn,
+			coefficients: new Int16Array(blocksPerLine * blocksPerColumn * 64),
+		};
+	});
+
+	return { width, height, components };
+}
+
+/**
+ * Decodes the entropy-coded data of a scan into the component coefficients
+ *
+ * @param bytes - The JPEG file contents
+ * @param offset - The offset of the entropy-coded data
+ * @param frame - The frame the scan belongs to
+ * @param scanComponents - The components in the scan and their tables
+ * @param restartInterval - The number of MCUs between restart markers, or 0
+ * @param progression - The spectral selection and successive approximation of a progressive scan, or null
+ * @returns The offset of the marker following the scan
+ */
+function decodeScan(
+	bytes: Uint8Array,
+	offset: number,
+	frame: Omit<JpegImage, "quantTables" | "segments">,
+	scanComponents: ScanComponent[],
+	restartInterval: number,
+	progression: {
+		spectralStart: number;
+		spectralEnd: number;
+		successivePrevious: number;
+		successive: number;
+	} | null,
+): number {
+	let bitBuffer = 0;
+	let bitCount = 0;
+
+	const readBit = (): number => {
+		if (bitCount === 0) {
+			bitBuffer = offset < bytes.length ? bytes[offset++] : 0;
+			if (bitBuffer === 0xff) {
+				if (bytes[offset] === 0) {
+					// Skip the stuffed zero byte
+					offset++;
+				} else {
+					// A marker ends the data early; pad with zeros
+					offset--;
+					bitBuffer = 0;
+				}
+			}
+			bitCount = 8;
+		}
+		bitCount--;
+		return (bitBuffer >> bitCount) & 1;
+	};
+
+	const receive = (length: number): number => {
+		let value = 0;
+		for (let i = 0; i < length; i++) {
+			value = (value << 1) | readBit();
+		}
+		return value;
+	};
+
+	const receiveExtend = (length: number): number => {
+		if (length === 0) return 0;
+		const value = receive(length);
+		return value >= 1 << (length - 1) ? value : value - (1 << length) + 1;
+	};
+
+	const decodeHuffman = (table: HuffmanTable | undefined): number => {
+		if (!table) {
+			throw new JpegError("Scan uses an undefined Huffman table");
+		}
+		let code = readBit();
+		for (let length = 1; length <= 16; length++) {
+			if (code <= table.maxCode[length]) {
+				return table.values[
+					table.valuePointer[length] + code - table.minCode[length]
+				];
+			}
+			code = (code << 1) | readBit();
+		}
+		throw new JpegError("Invalid Huffman code");
+	};
+
+	const { spectralStart, spectralEnd, successivePrevious, successive } =
+		progression ?? {
+			spectralStart: 0,
+			spectralEnd: 63,
+			successivePrevious: 0,
+			successive: 0,
+		};
+	let endOfBandRun = 0;
+	let refineState = 0;
+	let refineValue = 0;
+	let refineZeros = 0;
+
+	const decodeBaseline = (scan: ScanComponent, block: number): void => {
+		const coefficients = scan.component.coefficients;
+		scan.predictor += receiveExtend(decodeHuffman(scan.dcTable));
+		coefficients[block] = scan.predictor;
+
+		for (let k = 1; k < 64;) {
+			const symbol = decodeHuffman(scan.acTable);
+			const size = symbol & 0x0f;
+			const run = symbol >> 4;
+			if (size === 0) {
+				if (run < 15) break;
+				k += 16;
+				continue;
+			}
+			k += run;
+			if (k > 63) break;
+			coefficients[block + k] = receiveExtend(size);
+			k++;
+		}
+	};
+
+	const decodeDcFirst = (scan: ScanComponent, block: number): void => {
+		scan.predictor +=
+			receiveExtend(decodeHuffman(scan.dcTable)) * (1 << successive);
+		scan.component.coefficients[block] = scan.predictor;
+	};
+
+	const decodeDcRefine = (scan: ScanComponent, block: number): void => {
+		if (readBit()) {
+			scan.component.coefficients[block] |= 1 << successive;
+		}
+	};
+
+	const decodeAcFirst = (scan: ScanComponent, block: number): void => {
+		if (endOfBandRun > 0) {
+			endOfBandRun--;
+			return;
+		}
+
+		const coefficients = scan.component.coefficients;
+		for (let k = spectralStart; k <= spectralEnd;) {
+			const symbol = decodeHuffman(scan.acTable);
+			const size = symbol & 0x0f;
+			const run = symbol >> 4;
+			if (size === 0) {
+				if (run < 15) {
+					endOfBandRun = receive(run) + (1 << run) - 1;
+					break;
+				}
+				k += 16;
+				continue;
+			}
+			k += run;
+			if (k > 63) break;
+			coefficients[block + k] = receiveExtend(size) * (1 << successive);
+			k++;
+		}
+	};
+
+	// Refines the AC coefficients of a block, following the state machine of
+	// section G.1.2.3: 0 reads the next symbol, 1 skips a run of 16 zeros,
+	// 2 skips a run of zeros before a new value, 3 places the new value and
+	// 4 only refines nonzero coefficients until the end of band
+	const decodeAcRefine = (scan: ScanComponent, block: number): void => {
+		const coefficients = scan.component.coefficients;
+		for (let k = spectralStart; k <= spectralEnd;) {
+			const i = block + k;
+			const sign = coefficients[i] < 0 ? -1 : 1;
+
+			switch (refineState) {
+				case 0: {
+					const symbol = decodeHuffman(scan.acTable);
+					const size = symbol & 0x0f;
+					refineZeros = symbol >> 4;
+					if (size === 0) {
+						if (refineZeros < 15) {
+							endOfBandRun = receive(refineZeros) + (1 << refineZeros);
+							refineState = 4;
+						} else {
+							refineZeros = 16;
+							refineState = 1;
+						}
+					} else {
+						if (size !== 1) {
+							throw new JpegError("Invalid progressive refinement");
+						}
+						refineValue = receiveExtend(size);
+						refineState = refineZeros ? 2 : 3;
+					}
+					continue;
+				}
+				case 1:
+				case 2:
+					if (coefficients[i]) {
+						coefficients[i] += sign * (readBit() << successive);
+					} else {
+						refineZeros--;
+						if (refineZeros === 0) {
+							refineState = refineState === 2 ? 3 : 0;
+						}
+					}
+					break;
+				case 3:
+					if (coefficients[i]) {
+						coefficients[i] += sign * (readBit() << successive);
+					} else {
+						coefficients[i] = refineValue * (1 << successive);
+						refineState = 0;
+					}
+					break;
+				case 4:
+					if (coefficients[i]) {
+						coefficients[i] += sign * (readBit() << successive);
+					}
+					break;
+			}
+			k++;
+		}
+
+		if (refineState === 4) {
+			endOfBandRun--;
+			if (endOfBandRun === 0) refineState = 0;
+		}
+	};
+
+	let decodeBlock = decodeBaseline;
+	if (progression) {
+		if (spectralStart === 0) {
+			decodeBlock = successivePrevious === 0 ? decodeDcFirst : decodeDcRefine;
+		} else {
+			decodeBlock = successivePrevious === 0 ? decodeAcFirst : decodeAcRefine;
+		}
+	}
+
+	// A scan with one component covers only its blocks holding image data,
+	// one block per MCU; otherwise each MCU holds h x v blocks per component
+	const single = scanComponents.length === 1;
+	const singleBlocks = single
+		? componentBlocks(
+				{ ...frame, quantTables: [], segments: [] },
+				scanComponents[0].component,
+			)
+		: null;
+	const hMax = Math.max(...frame.components.map((c) => c.h));
+	const vMax = Math.max(...frame.components.map((c) => c.v));
+	const mcusPerLine = singleBlocks
+		? singleBlocks.columns
+		: Math.ceil(frame.width / (8 * hMax));
+	const mcuCount = singleBlocks
+		? singleBlocks.columns * singleBlocks.rows
+		: mcusPerLine * Math.ceil(frame.height / (8 * vMax));
+
+	for (let mcu = 0; mcu < mcuCount;) {
+		for (const scan of scanComponents) scan.predictor = 0;
+		endOfBandRun = 0;
+		refineState = 0;
+
+		const end = restartInterval
+			? Math.min(mcu + restartInterval, mcuCount)
+			: mcuCount;
+		for (; mcu < end; mcu++) {
+			const mcuRow = Math.floor(mcu / mcusPerLine);
+			const mcuCol = mcu % mcusPerLine;
+			for (const scan of scanComponents) {
+				const { component } = scan;
+				const h = single ? 1 : component.h;
+				const v = single ? 1 : component.v;
+				for (let y = 0; y < v; y++) {
+					for (let x = 0; x < h; x++) {
+						const row = mcuRow * v + y;
+						const col = mcuCol * h + x;
+						decodeBlock(scan, (row * component.blocksPerLine + col) * 64);
+					}
+				}
+			}
+		}
+
+		// Skip to the next restart marker, dropping the bits left in the byte
+		bitCount = 0;
+		offset = findMarker(bytes, offset);
+		if (
+			offset + 1 < bytes.length &&
+			bytes[offset + 1] >= 0xd0 &&
+			bytes[offset + 1] <= 0xd7
+		) {
+			offset += 2;
+		} else {
+			break;
+		}
+	}
+
+	return findMarker(bytes, offset);
+}
+
+/**
+ * Finds the next marker in entropy-coded data
+ *
+ * @param bytes - The JPEG file contents
+ * @param offset - The offset to search from
+ * @returns The offset of the marker, or the end of the data
+ */
+function findMarker(bytes: Uint8Array, offset: number): number {
+	for (let i = offset; i + 1 < bytes.length; i++) {
+		if (bytes[i] === 0xff && bytes[i + 1] !== 0 && bytes[i + 1] !== 0xff) {
+			return i;
+		}
+	}
+	return bytes.length;
+}
+
+/**
+ * Encodes the blocks of a baseline scan
+ *
+ * @param out - The output bytes to append to
+ * @param image - The image structure and coefficients
+ * @param scan - The components in the scan
+ * @param codes - The Huffman codes of each table
+ * @throws JpegError if a coefficient is out of range for a baseline JPEG
+ */
+function encodeScan(
+	out: number[],
+	image: JpegImage,
+	scan: JpegComponent[],
+	codes: { dc: HuffmanCode[]; ac: HuffmanCode[] }[],
+): void {
+	let bitBuffer = 0;
+	let bitCount = 0;
+
+	const writeBits = (value: number, length: number): void => {
+		for (let i = length - 1; i >= 0; i--) {
+			bitBuffer = (bitBuffer << 1) | ((value >> i) & 1);
+			bitCount++;
+			if (bitCount === 8) {
+				out.push(bitBuffer);
+				// Stuff a zero byte so the data is not mistaken for a marker
+				if (bitBuffer === 0xff) out.push(0);
+				bitBuffer = 0;
+				bitCount = 0;
+			}
+		}
+	};
+
+	const writeCode = (table: HuffmanCode[], symbol: number): void => {
+		const code = table[symbol];
+		if (!code) {
+			throw new JpegError("Coefficient out of range for a baseline JPEG");
+		}
+		writeBits(code.code, code.length);
+	};
+
+	const writeValue = (
+		table: HuffmanCode[],
+		run: number,
+		value: number,
+	): void => {
+		const magnitude = Math.abs(value);
+		const size = magnitude ? 32 - Math.clz32(magnitude) : 0;
+		writeCode(table, (run << 4) | size);
+		// Negative values are stored as the value minus one in size bits
+		if (size) writeBits(value < 0 ? value - 1 : value, size);
+	};
+
+	const predictors = scan.map(() => 0);
+	const single = scan.length === 1;
+	const blocks = single ? componentBlocks(image, scan[0]) : null;
+	const hMax = Math.max(...image.components.map((c) => c.h));
+	const vMax = Math.max(...image.components.map((c) => c.v));
+	const mcusPerLine = blocks
+		? blocks.columns
+		: Math.ceil(image.width / (8 * hMax));
+	const mcuCount = blocks
+		? blocks.columns * blocks.rows
+		: mcusPerLine * Math.ceil(image.height / (8 * vMax));
+
+	for (let mcu = 0; mcu < mcuCount; mcu++) {
+		const mcuRow = Math.floor(mcu / mcusPerLine);
+		const mcuCol = mcu % mcusPerLine;
+
+		scan.forEach((component, c) => {
+			const table = codes[image.components.indexOf(component) === 0 ? 0 : 1];
+			const h = single ? 1 : component.h;
+			const v = single ? 1 : component.v;
+
+			for (let y = 0; y < v; y++) {
+				for (let x = 0; x < h; x++) {
+					const row = mcuRow * v + y;
+					const col = mcuCol * h + x;
+					const block = (row * component.blocksPerLine + col) * 64;
+					const coefficients = component.coefficients;
+
+					writeValue(table.dc, 0, coefficients[block] - predictors[c]);
+					predictors[c] = coefficients[block];
+
+					let run = 0;
+					for (let k = 1; k < 64; k++) {
+						const value = coefficients[block + k];
+						if (value === 0) {
+							run++;
+							continue;
+						}
+						while (run > 15) {
+							// ZRL: a run of 16 zeros
+							writeCode(table.ac, 0xf0);
+							run -= 16;
+						}
+						writeValue(table.ac, run, value);
+						run = 0;
+					}
+					// EOB: the rest of the block is zero
+					if (run > 0) writeCode(table.ac, 0x00);
+				}
+			}
+		});
+	}
+
+	// Pad the last byte with 1 bits
+	if (bitCount > 0) writeBits(0xff, 8 - bitCount);
+}
+
+interface HuffmanCode {
+	code: number;
+	length: number;
+}
+
+/**
+ * Builds the decoding table of a Huffman table (section F.2.2.3)
+ *
+ * @param bits - The number of codes of each length from 1 to 16
+ * @param values - The symbols in code order
+ * @returns The decoding table
+ */
+function buildHuffmanTable(
+	bits: ArrayLike<number>,
+	values: Uint8Array,
+): HuffmanTable {
+	const maxCode = new Int32Array(18).fill(-1);
+	const valuePointer = new Int32Array(17);
+	const minCode = new Int32Array(17);
+
+	let code = 0;
+	let index = 0;
+	for (let length = 1; length <= 16; length++) {
+		valuePointer[length] = index;
+		minCode[length] = code;
+		code += bits[length - 1];
+		index += bits[length - 1];
+		if (bits[length - 1]) maxCode[length] = code - 1;
+		code <<= 1;
+	}
+
+	return { maxCode, valuePointer, minCode, values: values.slice() };
+}
+
+/**
+ * Builds the code of each symbol of a Huffman table
+ *
+ * @param bits - The number of codes of each length from 1 to 16
+ * @param values - The symbols in code order
+ * @returns The code and its length for each symbol
+ */
+function buildHuffmanCodes(bits: number[], values: number[]): HuffmanCode[] {
+	const codes: HuffmanCode[] = [];
+	let code = 0;
+	let index = 0;
+	for (let length = 1; length <= 16; length++) {
+		for (let i = 0; i < bits[length - 1]; i++) {
+			codes[values[index++]] = { code: code++, length };
+		}
+		code <<= 1;
+	}
+	return codes;
+}
+
+/**
+ * Computes the 2D DCT-II of an 8x8 block
+ *
+ * @param block - The level-shifted samples in natural order
+ * @returns The DCT coefficients in natural order
+ */
+function forwardDct(block: Float64Array): Float64Array {
+	const temp = new Float64Array(64);
+	const result = new Float64Array(64);
+
+	for (let y = 0; y < 8; y++) {
+		for (let u = 0; u < 8; u++) {
+			let sum = 0;
+			for (let x = 0; x < 8; x++) {
+				sum += block[y * 8 + x] * DCT_COSINES[x * 8 + u];
+			}
+			temp[y * 8 + u] = sum * (u === 0 ? Math.SQRT1_2 : 1) * 0.5;
+		}
+	}
+
+	for (let u = 0; u < 8; u++) {
+		for (let v = 0; v < 8; v++) {
+			let sum = 0;
+			for (let y = 0; y < 8; y++) {
+				sum += temp[y * 8 + u] * DCT_COSINES[y * 8 + v];
+			}
+			result[v * 8 + u] = sum * (v === 0 ? Math.SQRT1_2 : 1) * 0.5;
+		}
+	}
+
+	return result;
+}
+
+// cos((2x + 1) * u * PI / 16) for sample x and frequency u
+const DCT_COSINES = Float64Array.from({ length: 64 }, (_, i) =>
+	Math.cos(((2 * Math.floor(i / 8) + 1) * (i % 8) * Math.PI) / 16),
+);
+
+/**
+ * Appends a marker segment
+ *
+ * @param out - The output bytes to append to
+ * @param marker - The marker code
+ * @param data - The segment contents after the length
+ */
+function writeMarker(
+	out: number[],
+	marker: number,
+	data: ArrayLike<number>,
+): void {
+	const length = data.length + 2;
+	out.push(0xff, marker, length >> 8, length & 0xff);
+	pushBytes(out, data);
+}
+
+/**
+ * Appends bytes to an output array
+ *
+ * @param out - The output bytes to append to
+ * @param bytes - The bytes to append
+ */
+function pushBytes(out: number[], bytes: ArrayLike<number>): void {
+	for (let i = 0; i < bytes.length; i++) {
+		out.push(bytes[i]);
+	}
+}
+
+/**
+ * Reads a big-endian 16-bit integer
+ *
+ * @param bytes - The bytes to read from
+ * @param offset - The offset of the integer
+ * @returns The integer
+ */
+function readUint16(bytes: Uint8Array, offset: number): number {
+	return (bytes[offset] << 8) | bytes[offset + 1];
+}
+
+/**
+ * Collects the AC coefficients of the blocks holding image data
+ *
+ * @param image - The image structure and coefficients
+ * @returns 63 AC coefficients per block, for every block of every component
+ */
+export function getAcCoefficients(image: JpegImage): Int16Array {
+	const blocks = image.components.reduce((sum, component) => {
+		const { columns, rows } = componentBlocks(image, component);
+		return sum + columns * rows;
+	}, 0);
+
+	const values = new Int16Array(blocks * 63);
+	let index = 0;
+	forEachDataBlock(image, (coefficients, block) => {
+		values.set(coefficients.subarray(block + 1, block + 64), index);
+		index += 63;
+	});
+	return values;
+}
+
+/**
+ * Replaces the AC coefficients of the blocks holding image data
+ *
+ * @param image - The image structure and coefficients, updated in place
+ * @param values - The coefficients in the order returned by getAcCoefficients
+ */
+export function setAcCoefficients(image: JpegImage, values: Int16Array): void {
+	let index = 0;
+	forEachDataBlock(image, (coefficients, block) => {
+		coefficients.set(values.subarray(index, index + 63), block + 1);
+		index += 63;
+	});
+}
+
+/**
+ * Calls a function for each block holding image data, component by component
+ *
+ * @param image - The image structure and coefficients
+ * @param callback - Called with the component coefficients and the block offset
+ */
+function forEachDataBlock(
+	image: JpegImage,
+	callback: (coefficients: Int16Array, block: number) => void,
+): void {
+	for (const component of image.components) {
+		const { columns, rows } = componentBlocks(image, component);
+		for (let row = 0; row < rows; row++) {
+			for (let col = 0; col < columns; col++) {
+				callback(
+					component.coefficients,
+					(row * component.blocksPerLine + col) * 64,
+				);
+			}
+		}
+	}
+}
@@ -0,0 +1,218 @@
+/**
+ * Image Quality Metrics
+ *
+ * Measures how much embedding degraded a cover image: the mean squared error
+ * and peak signal-to-noise ratio over the RGB channels, the structural
+ * similarity (SSIM) of the luminance, and a heatmap of the changed pixels.
+ */
+
+import type { RawImage } from "@/lib/core";
+
+export interface QualityMetrics {
+	/** Mean squared error over the RGB channels */
+	mse: number;
+	/** Peak signal-to-noise ratio in dB, Infinity for identical images */
+	psnr: number;
+	/** Mean structural similarity of the luminance, 1 for identical images */
+	ssim: number;
+	/** Number of pixels with at least one changed channel */
+	changedPixels: number;
+}
+
+// Size of the square SSIM windows and the step between them
+const SSIM_WINDOW = 8;
+const SSIM_STEP = 4;
+
+// SSIM stabilizing constants for 8-bit values
+const SSIM_C1 = (0.01 * 255) ** 2;
+const SSIM_C2 = (0.03 * 255) ** 2;
+
+/**
+ * Compares a stego image against its cover image
+ *
+ * @param cover - The RGBA data of the cover image
+ * @param stego - The RGBA data of the stego image, with the same dimensions
+ * @param width - The width of the images
+ * @param height - The height of the images
+ * @returns The MSE, PSNR, SSIM and number of changed pixels
+ * @throws Error if the images have different sizes
+ */
+export function computeQualityMetrics(
+	cover: Uint8ClampedArray,
+	stego: Uint8ClampedArray,
+	width: number,
+	height: number,
+): QualityMetrics {
+	checkSameSize(cover, stego);
+
+	let squaredError = 0;
+	let changedPixels = 0;
+	for (let i = 0; i < cover.length; i += 4) {
+		for (let c = 0; c < 3; c++) {
+			squaredError += (cover[i + c] - stego[i + c]) ** 2;
+		}
+		if (maxDifference(cover, stego, i) > 0) changedPixels++;
+	}
+
+	const mse = squaredError / ((cover.length / 4) * 3);
+	const psnr = mse === 0 ? Infinity : 10 * Math.log10((255 * 255) / mse);
+	const ssim = computeSSIM(luminance(cover), luminance(stego), width, height);
+
+	return { mse, psnr, ssim, changedPixels };
+}
+
+/**
+ * Renders the pixels a stego image changed as a heatmap
+ *
+ * Unchanged pixels show a dimmed grayscale of the cover. Changed pixels go
+ * from red for a difference of 1 to yellow for differences of 9 or more.
+ *
+ * @param cover - The RGBA data of the cover image
+ * @param stego - The RGBA data of the stego image, with the same dimensions
+ * @returns RGBA image data of the heatmap
+ * @throws Error if the images have different sizes
+ */
+export function changeHeatmap(
+	cover: Uint8ClampedArray,
+	stego: Uint8ClampedArray,
+): Uint8ClampedArray {
+	checkSameSize(cover, stego);
+
+	const heatmap = new Uint8ClampedArray(cover.length);
+	for (let i = 0; i < cover.length; i += 4) {
+		const difference = maxDifference(cover, stego, i);
+		if (difference > 0) {
+			heatmap[i] = 255;
+			heatmap[i + 1] = (difference - 1) * 32;
+			heatmap[i + 2] = 0;
+		} else {
+			const gray =
+				(0.299 * cover[i] + 0.587 * cover[i + 1] + 0.114 * cover[i + 2]) / 4;
+			heatmap[i] = gray;
+			heatmap[i + 1] = gray;
+			heatmap[i + 2] = gray;
+		}
+		heatmap[i + 3] = 255;
+	}
+	return heatmap;
+}
+
+/**
+ * Checks that a cover and a stego image have the same size
+ *
+ * Images given as bare RGBA data are compared by length; when both images
+ * have dimensions, their widths must match too.
+ *
+ * @param cover - The cover image, or its RGBA data
+ * @param stego - The stego image, or its RGBA data
+ * @throws Error if the sizes differ
+ */
+export function checkSameSize(
+	cover: RawImage | Uint8ClampedArray,
+	stego: RawImage | Uint8ClampedArray,
+): void {
+	const coverData = "data" in cover ? cover.data : cover;
+	const stegoData = "data" in stego ? stego.data : stego;
+	const sameWidth =
+		!("width" in cover && "width" in stego) || cover.width === stego.width;
+
+	if (coverData.length !== stegoData.length || !sameWidth) {
+		throw new Error("The cover and stego images must have the same size.");
+	}
+}
+
+/**
+ * Finds the largest change of any channel of a pixel
+ *
+ * @param cover - The RGBA data of the cover image
+ * @param stego - The RGBA data of the stego image
+ * @param index - The index of the pixel's red value
+ * @returns The largest absolute difference over RGBA
+ */
+function maxDifference(
+	cover: Uint8ClampedArray,
+	stego: Uint8ClampedArray,
+	index: number,
+): number {
+	let difference = 0;
+	for (let c = 0; c < 4; c++) {
+		difference = Math.max(
+			difference,
+			Math.abs(cover[index + c] - stego[index + c]),
+		);
+	}
+	return difference;
+}
+
+/**
+ * Computes the luminance of each pixel (ITU-R BT.601)
+ *
+ * @param data - The RGBA image data
+ * @returns The luminance values in scan order
+ */
+function luminance(data: Uint8ClampedArray): Float64Array {
+	const luma = new Float64Array(data.length / 4);
+	for (let i = 0; i < luma.length; i++) {
+		luma[i] =
+			0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+	}
+	return luma;
+}
+
+/**
+ * Computes the mean SSIM over overlapping square windows
+ *
+ * @param x - The luminance of the first image
+ * @param y - The luminance of the second image
+ * @param width - The width of the images
+ * @param height - The height of the images
+ * @returns The mean SSIM, between -1 and 1
+ */
+function computeSSIM(
+	x: Float64Array,
+	y: Float64Array,
+	width: number,
+	height: number,
+): number {
+	// Images smaller than a window are compared as a single window
+	const windowWidth = Math.min(SSIM_WINDOW, width);
+	const windowHeight = Math.min(SSIM_WINDOW, height);
+	const n = windowWidth * windowHeight;
+	let total = 0;
+	let windows = 0;
+
+	for (let top = 0; top + windowHeight <= height; top += SSIM_STEP) {
+		for (let left = 0; left + windowWidth <= width; left += SSIM_STEP) {
+			let sumX = 0;
+			let sumY = 0;
+			let sumXX = 0;
+			let sumYY = 0;
+			let sumXY = 0;
+
+			for (let row = top; row < top + windowHeight; row++) {
+				for (let col = left; col < left + windowWidth; col++) {
+					const a = x[row * width + col];
+					const b = y[row * width + col];
+					sumX += a;
+					sumY += b;
+					sumXX += a * a;
+					sumYY += b * b;
+					sumXY += a * b;
+				}
+			}
+
+			const meanX = sumX / n;
+			const meanY = sumY / n;
+			const varX = sumXX / n - meanX * meanX;
+			const varY = sumYY / n - meanY * meanY;
+			const covariance = sumXY / n - meanX * meanY;
+
+			total +=
+				((2 * meanX * meanY + SSIM_C1) * (2 * covariance + SSIM_C2)) /
+				((meanX * meanX + meanY * meanY + SSIM_C1) * (varX + varY + SSIM_C2));
+			windows++;
+		}
+	}
+
+	return windows === 0 ? 1 : total / windows;
+}
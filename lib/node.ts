@@ -0,0 +1,194 @@
+/**
+ * Node Adapter
+ *
+ * Runs the steganography core outside the browser, for scripts, servers and
+ * tests. Images are passed as file contents: PNGs are read and written with
+ * the pure-TS codec in png.ts, and JPEGs can be used with the JPEG technique,
+ * which works on their DCT coefficients without decoding pixels.
+ */
+
+import type { HiddenFile } from "@/lib/container";
+import {
+	decodeImage,
+	decodeImageBytes,
+	detectImageTechnique,
+	encodeImage,
+	getImageCapacity,
+	restorePixels,
+	type DecodedPayload,
+	type DecodeOptions,
+	type EncodedImage,
+	type EncodeOptions,
+	type ImageCodec,
+} from "@/lib/core";
+import { isJpeg } from "@/lib/jpeg";
+import { decodePng, encodePng, isPng } from "@/lib/png";
+import { analyzePixels, type SteganalysisReport } from "@/lib/steganalysis";
+
+/**
+ * Thrown when an image is not in a format whose pixels can be decoded here
+ */
+export class UnsupportedImageError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "UnsupportedImageError";
+	}
+}
+
+/**
+ * Reads and writes images with the pure-TS PNG codec
+ */
+export const nodeCodec: ImageCodec = {
+	decode: async (bytes) => {
+		if (isPng(bytes)) return decodePng(bytes);
+		if (isJpeg(bytes)) {
+			throw new UnsupportedImageError(
+				"JPEG pixels cannot be decoded here. Convert the image to PNG, or use the JPEG technique.",
+			);
+		}
+		throw new UnsupportedImageError(
+			"Unsupported image format. Please use a PNG image.",
+		);
+	},
+	encodePng,
+};
+
+/**
+ * Encodes a message into an image using the specified steganography technique
+ *
+ * @param image - The contents of the image file to encode the message into
+ * @param message - The secret message to hide in the image
+ * @param technique - The steganography technique to use
+ * @param options - Additional encoding options
+ * @returns A Promise that resolves to the encoded PNG, or JPEG for the JPEG technique
+ */
+export async function encodeMessage(
+	image: Uint8Array,
+	message: string,
+	technique = "lsb",
+	options: EncodeOptions = {},
+): Promise<EncodedImage> {
+	return encodeImage(nodeCodec, image, message, technique, options);
+}
+
+/**
+ * Encodes a file into an image, preserving its name and MIME type
+ *
+ * @param image - The contents of the image file to encode the file into
+ * @param file - The file to hide in the image
+ * @param technique - The steganography technique to use
+ * @param options - Additional encoding options
+ * @returns A Promise that resolves to the encoded PNG, or JPEG for the JPEG technique
+ */
+export async function encodeFile(
+	image: Uint8Array,
+	file: HiddenFile,
+	technique = "lsb",
+	options: EncodeOptions = {},
+): Promise<EncodedImage> {
+	return encodeImage(nodeCodec, image, file, technique, options);
+}
+
+/**
+ * Encodes arbitrary binary data into an image
+ *
+ * @param image - The contents of the image file to encode the data into
+ * @param payload - The bytes to hide in the image
+ * @param technique - The steganography technique to use
+ * @param options - Additional encoding options
+ * @returns A Promise that resolves to the encoded PNG, or JPEG for the JPEG technique
+ */
+export async function encodeBytes(
+	image: Uint8Array,
+	payload: Uint8Array,
+	technique = "lsb",
+	options: EncodeOptions = {},
+): Promise<EncodedImage> {
+	return encodeImage(nodeCodec, image, payload, technique, options);
+}
+
+/**
+ * Decodes a payload from an image, whether it is a text message or a file
+ *
+ * @param image - The contents of the image file containing the hidden payload
+ * @param technique - The steganography technique used for encoding, or "auto" to detect it
+ * @param options - Additional decoding options
+ * @returns A Promise that resolves to the decoded payload
+ */
+export async function decodePayload(
+	image: Uint8Array,
+	technique = "lsb",
+	options: DecodeOptions = {},
+): Promise<DecodedPayload> {
+	return decodeImage(nodeCodec, image, technique, options);
+}
+
+/**
+ * Decodes arbitrary binary data from an image
+ *
+ * @param image - The contents of the image file containing the hidden data
+ * @param technique - The steganography technique used for encoding, or "auto" to detect it
+ * @param options - Additional decoding options
+ * @returns A Promise that resolves to the decoded bytes (the file contents for hidden files)
+ */
+export async function decodeBytes(
+	image: Uint8Array,
+	technique = "lsb",
+	options: DecodeOptions = {},
+): Promise<Uint8Array> {
+	return decodeImageBytes(nodeCodec, image, technique, options);
+}
+
+/**
+ * Detects which steganography technique was used to hide data in an image
+ *
+ * @param image - The contents of the image file to inspect
+ * @param options - Additional decoding options (the stego key is used if set)
+ * @returns A Promise that resolves to the detected technique, or null if no payload was found
+ */
+export async function detectTechnique(
+	image: Uint8Array,
+	options: DecodeOptions = {},
+): Promise<string | null> {
+	return detectImageTechnique(nodeCodec, image, options);
+}
+
+/**
+ * Computes how many payload bytes an image can hold with a technique
+ *
+ * @param image - The contents of the cover image file
+ * @param technique - The steganography technique to use
+ * @param options - Additional encoding options
+ * @returns A Promise that resolves to the usable capacity in bytes
+ */
+export async function getCapacity(
+	image: Uint8Array,
+	technique = "lsb",
+	options: EncodeOptions = {},
+): Promise<number> {
+	return getImageCapacity(nodeCodec, image, technique, options);
+}
+
+/**
+ * Runs steganalysis attacks on an image to estimate whether it hides data
+ *
+ * @param image - The contents of the image file to analyze
+ * @returns A Promise that resolves to per-channel embedding rate estimates and a verdict
+ */
+export async function analyzeImage(
+	image: Uint8Array,
+): Promise<SteganalysisReport> {
+	const { data, width, height } = await nodeCodec.decode(image);
+	return analyzePixels(data, width, height);
+}
+
+/**
+ * Restores the original cover image of an image encoded with Histogram Shifting
+ *
+ * @param image - The contents of the image file containing the hidden payload
+ * @returns A Promise that resolves to the bit-exact cover image as a PNG
+ * @throws NoPayloadError if the image holds no histogram shifting payload
+ */
+export async function restoreCover(image: Uint8Array): Promise<Uint8Array> {
+	return encodePng(restorePixels(await nodeCodec.decode(image)));
+}
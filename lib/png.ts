@@ -0,0 +1,602 @@
+/**
+ * PNG Codec
+ *
+ * Decodes and encodes PNG images (RFC 2083) without a canvas, so images can
+ * be read and written outside the browser. Decodes every standard color
+ * type and bit depth, interlaced or not, to 8-bit RGBA; 16-bit samples keep
+ * their high byte. Encodes RGBA images losslessly, choosing a filter for
+ * each row with the minimum sum of absolute differences heuristic.
+ */
+
+import { zlibCompress, zlibDecompress } from "@/lib/compression";
+import { crc32 } from "@/lib/container";
+import type { RawImage } from "@/lib/core";
+
+/**
+ * Thrown when a PNG is malformed or uses features the codec does not support
+ */
+export class PngError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "PngError";
+	}
+}
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+// Color types from the IHDR chunk
+const COLOR_GRAY = 0;
+const COLOR_RGB = 2;
+const COLOR_PALETTE = 3;
+const COLOR_GRAY_ALPHA = 4;
+const COLOR_RGBA = 6;
+
+// Samples per pixel and allowed bit depths of each color type
+const COLOR_TYPES: Record<number, { channels: number; depths: number[] }> = {
+	[COLOR_GRAY]: { channels: 1, depths: [1, 2, 4, 8, 16] },
+	[COLOR_RGB]: { channels: 3, depths: [8, 16] },
+	[COLOR_PALETTE]: { channels: 1, depths: [1, 2, 4, 8] },
+	[COLOR_GRAY_ALPHA]: { channels: 2, depths: [8, 16] },
+	[COLOR_RGBA]: { channels: 4, depths: [8, 16] },
+};
+
+// Origin and spacing of the pixels in each of the seven Adam7 passes
+const ADAM7_PASSES = [
+	{ x: 0, y: 0, dx: 8, dy: 8 },
+	{ x: 4, y: 0, dx: 8, dy: 8 },
+	{ x: 0, y: 4, dx: 4, dy: 8 },
+	{ x: 2, y: 0, dx: 4, dy: 4 },
+	{ x: 0, y: 2, dx: 2, dy: 4 },
+	{ x: 1, y: 0, dx: 2, dy: 2 },
+	{ x: 0, y: 1, dx: 1, dy: 2 },
+];
+
+// Largest image, in pixels, that is decoded; bigger ones would exhaust memory
+const MAX_PIXELS = 50_000_000;
+
+// Row filter types
+const FILTER_NONE = 0;
+const FILTER_SUB = 1;
+const FILTER_UP = 2;
+const FILTER_AVERAGE = 3;
+const FILTER_PAETH = 4;
+
+interface PngHeader {
+	width: number;
+	height: number;
+	bitDepth: number;
+	colorType: number;
+	interlaced: boolean;
+}
+
+interface PngPass {
+	/** Position of the first pixel of the pass */
+	x: number;
+	y: number;
+	/** Spacing of the pixels of the pass */
+	dx: number;
+	dy: number;
+	/** Size of the pass in pixels */
+	width: number;
+	height: number;
+}
+
+/**
+ * Checks whether bytes start with the PNG signature
+ *
+ * @param bytes - The file contents
+ * @returns True if the bytes look like a PNG
+ */
+export function isPng(bytes: Uint8Array): boolean {
+	return (
+		bytes.length > PNG_SIGNATURE.length &&
+		PNG_SIGNATURE.every((byte, i) => bytes[i] === byte)
+	);
+}
+
+/**
+ * Decodes a PNG into 8-bit RGBA pixels
+ *
+ * Gamma, color profile and other ancillary chunks are ignored, so the
+ * samples come out exactly as stored.
+ *
+ * @param bytes - The PNG file contents
+ * @returns A Promise that resolves to the pixels of the image
+ * @throws PngError if the PNG is malformed or unsupported
+ */
+export async function decodePng(bytes: Uint8Array): Promise<RawImage> {
+	if (!isPng(bytes)) {
+		throw new PngError("Not a PNG file");
+	}
+
+	const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+	let header: PngHeader | null = null;
+	let palette: Uint8Array | null = null;
+	let transparency: Uint8Array | null = null;
+	const idat: Uint8Array[] = [];
+	let offset = PNG_SIGNATURE.length;
+
+	for (;;) {
+		if (offset + 12 > bytes.length) {
+			throw new PngError("Unexpected end of PNG file");
+		}
+		const length = view.getUint32(offset);
+		const end = offset + 12 + length;
+		if (end > bytes.length) {
+			throw new PngError("Unexpected end of PNG file");
+		}
+
+		const typeAndData = bytes.subarray(offset + 4, offset + 8 + length);
+		if (crc32(typeAndData) !== view.getUint32(offset + 8 + length)) {
+			throw new PngError("Corrupt PNG chunk");
+		}
+		const type = String.fromCharCode(...typeAndData.subarray(0, 4));
+		const data = typeAndData.subarray(4);
+		offset = end;
+
+		if (type === "IEND") break;
+		switch (type) {
+			case "IHDR":
+				header = readHeader(data);
+				break;
+			case "PLTE":
+				palette = data;
+				break;
+			case "tRNS":
+				transparency = data;
+				break;
+			case "IDAT":
+				idat.push(data);
+				break;
+			default:
+				// Unknown critical chunks change how the image must be read
+				if (!(typeAndData[0] & 0x20)) {
+					throw new PngError(`Unsupported PNG chunk: ${type}`);
+				}
+		}
+	}
+
+	if (!header) {
+		throw new PngError("Missing PNG header");
+	}
+	if (header.colorType === COLOR_PALETTE && !palette) {
+		throw new PngError("Missing PNG palette");
+	}
+
+	const compressed = new Uint8Array(
+		idat.reduce((n, chunk) => n + chunk.length, 0),
+	);
+	offset = 0;
+	for (const chunk of idat) {
+		compressed.set(chunk, offset);
+		offset += chunk.length;
+	}
+	const passes = getPasses(header);
+	const expectedLength = passes.reduce(
+		(n, pass) => n + pass.height * (1 + rowLength(pass.width, header)),
+		0,
+	);
+	let raw: Uint8Array;
+	try {
+		raw = await zlibDecompress(compressed, expectedLength);
+	} catch {
+		throw new PngError("Corrupt PNG image data");
+	}
+	if (raw.length !== expectedLength) {
+		throw new PngError("PNG image data does not match the image size");
+	}
+
+	const { width, height } = header;
+	const data = new Uint8ClampedArray(width * height * 4);
+	offset = 0;
+
+	for (const pass of passes) {
+		const rows = unfilterRows(raw, offset, pass.width, pass.height, header);
+		offset = rows.end;
+
+		for (let row = 0; row < pass.height; row++) {
+			const line = rows.lines[row];
+			for (let col = 0; col < pass.width; col++) {
+				const i =
+					((pass.y + row * pass.dy) * width + pass.x + col * pass.dx) * 4;
+				writePixel(data, i, line, col, header, palette, transparency);
+			}
+		}
+	}
+
+	return { width, height, data };
+}
+
+/**
+ * Encodes RGBA pixels as a PNG
+ *
+ * Images that are fully opaque are stored without the alpha channel.
+ *
+ * @param image - The pixels to encode
+ * @returns A Promise that resolves to the PNG file contents
+ */
+export async function encodePng(image: RawImage): Promise<Uint8Array> {
+	const { width, height, data } = image;
+
+	let opaque = true;
+	for (let i = 3; i < data.length; i += 4) {
+		if (data[i] !== 255) {
+			opaque = false;
+			break;
+		}
+	}
+	const channels = opaque ? 3 : 4;
+	const rowBytes = width * channels;
+
+	// Each row is stored with the filter that leaves the smallest residuals
+	const filtered = new Uint8Array((rowBytes + 1) * height);
+	let previous = new Uint8Array(rowBytes);
+	let current = new Uint8Array(rowBytes);
+	const candidate = new Uint8Array(rowBytes);
+
+	for (let y = 0; y < height; y++) {
+		for (let x = 0; x < width; x++) {
+			for (let c = 0; c < channels; c++) {
+				current[x * channels + c] = data[(y * width + x) * 4 + c];
+			}
+		}
+
+		const rowStart = y * (rowBytes + 1);
+		let bestCost = Infinity;
+		for (let filter = FILTER_NONE; filter <= FILTER_PAETH; filter++) {
+			const cost = filterRow(filter, current, previous, channels, candidate);
+			if (cost < bestCost) {
+				bestCost = cost;
+				filtered[rowStart] = filter;
+				filtered.set(candidate, rowStart + 1);
+			}
+		}
+
+		[previous, current] = [current, previous];
+	}
+
+	const ihdr = new Uint8Array(13);
+	const ihdrView = new DataView(ihdr.buffer);
+	ihdrView.setUint32(0, width);
+	ihdrView.setUint32(4, height);
+	ihdr[8] = 8;
+	ihdr[9] = opaque ? COLOR_RGB : COLOR_RGBA;
+
+	const chunks = [
+		Uint8Array.from(PNG_SIGNATURE),
+		writeChunk("IHDR", ihdr),
+		writeChunk("IDAT", await zlibCompress(filtered)),
+		writeChunk("IEND", new Uint8Array(0)),
+	];
+
+	const png = new Uint8Array(chunks.reduce((n, chunk) => n + chunk.length, 0));
+	let offset = 0;
+	for (const chunk of chunks) {
+		png.set(chunk, offset);
+		offset += chunk.length;
+	}
+	return png;
+}
+
+/**
+ * Parses and validates the IHDR chunk
+ *
+ * @param data - The chunk data
+ * @returns The image header
+ * @throws PngError if the header is invalid or unsupported
+ */
+function readHeader(data: Uint8Array): PngHeader {
+	if (data.length !== 13) {
+		throw new PngError("Invalid PNG header");
+	}
+
+	const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+	const header = {
+		width: view.getUint32(0),
+		height: view.getUint32(4),
+		bitDepth: data[8],
+		colorType: data[9],
+		interlaced: data[12] === 1,
+	};
+
+	if (header.width === 0 || header.height === 0) {
+		throw new PngError("Invalid PNG dimensions");
+	}
+	if (header.width * header.height > MAX_PIXELS) {
+		throw new PngError(
+			`PNG images larger than ${MAX_PIXELS.toLocaleString("en-US")} pixels are not supported`,
+		);
+	}
+	if (!COLOR_TYPES[header.colorType]?.depths.includes(header.bitDepth)) {
+		throw new PngError(
+			`Unsupported PNG color type ${header.colorType} with bit depth ${header.bitDepth}`,
+		);
+	}
+	if (data[10] !== 0 || data[11] !== 0 || data[12] > 1) {
+		throw new PngError(
+			"Unsupported PNG compression, filter or interlace method",
+		);
+	}
+
+	return header;
+}
+
+/**
+ * Lists the passes of the image data with their size in pixels
+ *
+ * Interlaced images have the seven Adam7 passes, less any that are empty;
+ * other images have a single pass covering the whole image.
+ *
+ * @param header - The image header
+ * @returns The origin, spacing and size of each pass
+ */
+function getPasses(header: PngHeader): PngPass[] {
+	const passes = header.interlaced
+		? ADAM7_PASSES
+		: [{ x: 0, y: 0, dx: 1, dy: 1 }];
+	return passes
+		.map((pass) => ({
+			...pass,
+			width: Math.ceil((header.width - pass.x) / pass.dx),
+			height: Math.ceil((header.height - pass.y) / pass.dy),
+		}))
+		.filter((pass) => pass.width > 0 && pass.height > 0);
+}
+
+/**
+ * Computes the length of a row of image data, without its filter byte
+ *
+ * @param width - The width of the row in pixels
+ * @param header - The image header
+ * @returns The length of the row in bytes
+ */
+function rowLength(width: number, header: PngHeader): number {
+	const bitsPerPixel = COLOR_TYPES[header.colorType].channels * header.bitDepth;
+	return Math.ceil((width * bitsPerPixel) / 8);
+}
+
+/**
+ * Reverses the row filters of one pass of the image data
+ *
+ * @param raw - The decompressed image data
+ * @param offset - The position of the first row of the pass
+ * @param width - The width of the pass in pixels
+ * @param height - The height of the pass in rows
+ * @param header - The image header
+ * @returns The unfiltered rows and the position after the pass
+ * @throws PngError if the data is truncated or uses an unknown filter
+ */
+function unfilterRows(
+	raw: Uint8Array,
+	offset: number,
+	width: number,
+	height: number,
+	header: PngHeader,
+): { lines: Uint8Array[]; end: number } {
+	const bitsPerPixel = COLOR_TYPES[header.colorType].channels * header.bitDepth;
+	const rowBytes = rowLength(width, header);
+	// Distance to the corresponding byte of the previous pixel
+	const distance = Math.max(1, bitsPerPixel >> 3);
+	const lines: Uint8Array[] = [];
+	let previous = new Uint8Array(rowBytes);
+
+	for (let row = 0; row < height; row++) {
+		if (offset + 1 + rowBytes > raw.length) {
+			throw new PngError("Truncated PNG image data");
+		}
+		const filter = raw[offset];
+		const line = raw.slice(offset + 1, offset + 1 + rowBytes);
+		offset += 1 + rowBytes;
+
+		for (let i = 0; i < rowBytes; i++) {
+			const left = i >= distance ? line[i - distance] : 0;
+			const up = previous[i];
+			const upLeft = i >= distance ? previous[i - distance] : 0;
+
+			switch (filter) {
+				case FILTER_NONE:
+					break;
+				case FILTER_SUB:
+					line[i] += left;
+					break;
+				case FILTER_UP:
+					line[i] += up;
+					break;
+				case FILTER_AVERAGE:
+					line[i] += (left + up) >> 1;
+					break;
+				case FILTER_PAETH:
+					line[i] += paeth(left, up, upLeft);
+					break;
+				default:
+					throw new PngError(`Unknown PNG filter type: ${filter}`);
+			}
+		}
+
+		lines.push(line);
+		previous = line;
+	}
+
+	return { lines, end: offset };
+}
+
+/**
+ * Converts one pixel of an unfiltered row to RGBA
+ *
+ * @param data - The RGBA output, modified in place
+ * @param index - The index of the pixel's red value in the output
+ * @param line - The unfiltered row
+ * @param x - The position of the pixel in the row
+ * @param header - The image header
+ * @param palette - The PLTE chunk, for palette images
+ * @param transparency - The tRNS chunk, if any
+ */
+function writePixel(
+	data: Uint8ClampedArray,
+	index: number,
+	line: Uint8Array,
+	x: number,
+	header: PngHeader,
+	palette: Uint8Array | null,
+	transparency: Uint8Array | null,
+): void {
+	const { bitDepth, colorType } = header;
+	const channels = COLOR_TYPES[colorType].channels;
+	const sample = (c: number) => readSample(line, x * channels + c, bitDepth);
+	// Scales a sample to 8 bits, keeping the high byte of 16-bit samples
+	const to8 = (value: number) =>
+		bitDepth === 16
+			? value >> 8
+			: bitDepth < 8
+				? (value * 255) / ((1 << bitDepth) - 1)
+				: value;
+
+	switch (colorType) {
+		case COLOR_GRAY:
+		case COLOR_GRAY_ALPHA: {
+			const gray = sample(0);
+			data[index] = data[index + 1] = data[index + 2] = to8(gray);
+			if (colorType === COLOR_GRAY_ALPHA) {
+				data[index + 3] = to8(sample(1));
+			} else {
+				const key = transparency ? readSample(transparency, 0, 16) : -1;
+				data[index + 3] = gray === key ? 0 : 255;
+			}
+			break;
+		}
+		case COLOR_PALETTE: {
+			const entry = sample(0);
+			if (!palette || entry * 3 + 2 >= palette.length) {
+				throw new PngError("PNG palette index out of range");
+			}
+			data[index] = palette[entry * 3];
+			data[index + 1] = palette[entry * 3 + 1];
+			data[index + 2] = palette[entry * 3 + 2];
+			data[index + 3] =
+				transparency && entry < transparency.length ? transparency[entry] : 255;
+			break;
+		}
+		default: {
+			const red = sample(0);
+			const green = sample(1);
+			const blue = sample(2);
+			data[index] = to8(red);
+			data[index + 1] = to8(green);
+			data[index + 2] = to8(blue);
+			if (colorType === COLOR_RGBA) {
+				data[index + 3] = to8(sample(3));
+			} else {
+				const opaque =
+					!transparency ||
+					transparency.length < 6 ||
+					red !== readSample(transparency, 0, 16) ||
+					green !== readSample(transparency, 1, 16) ||
+					blue !== readSample(transparency, 2, 16);
+				data[index + 3] = opaque ? 255 : 0;
+			}
+		}
+	}
+}
+
+/**
+ * Reads one sample of a row
+ *
+ * @param line - The unfiltered row
+ * @param index - The index of the sample in the row
+ * @param bitDepth - The bits per sample
+ * @returns The sample value at full precision
+ */
+function readSample(line: Uint8Array, index: number, bitDepth: number): number {
+	if (bitDepth === 8) return line[index];
+	if (bitDepth === 16) return (line[index * 2] << 8) | line[index * 2 + 1];
+
+	const bit = index * bitDepth;
+	const shift = 8 - bitDepth - (bit & 7);
+	return (line[bit >> 3] >> shift) & ((1 << bitDepth) - 1);
+}
+
+/**
+ * Filters a row of 8-bit samples
+ *
+ * @param filter - The filter type
+ * @param line - The row to filter
+ * @param previous - The row above, all zeros for the first row
+ * @param distance - The bytes per pixel
+ * @param output - Receives the filtered row
+ * @returns The sum of the absolute values of the filtered bytes, read as signed
+ */
+function filterRow(
+	filter: number,
+	line: Uint8Array,
+	previous: Uint8Array,
+	distance: number,
+	output: Uint8Array,
+): number {
+	let cost = 0;
+
+	for (let i = 0; i < line.length; i++) {
+		const left = i >= distance ? line[i - distance] : 0;
+		const up = previous[i];
+		const upLeft = i >= distance ? previous[i - distance] : 0;
+
+		let predicted = 0;
+		switch (filter) {
+			case FILTER_SUB:
+				predicted = left;
+				break;
+			case FILTER_UP:
+				predicted = up;
+				break;
+			case FILTER_AVERAGE:
+				predicted = (left + up) >> 1;
+				break;
+			case FILTER_PAETH:
+				predicted = paeth(left, up, upLeft);
+				break;
+		}
+
+		const value = (line[i] - predicted) & 0xff;
+		output[i] = value;
+		cost += value < 128 ? value : 256 - value;
+	}
+
+	return cost;
+}
+
+/**
+ * Predicts a byte from its neighbours with the Paeth predictor
+ *
+ * @param left - The byte to the left
+ * @param up - The byte above
+ * @param upLeft - The byte above and to the left
+ * @returns Whichever neighbour is closest to left + up - upLeft
+ */
+function paeth(left: number, up: number, upLeft: number): number {
+	const estimate = left + up - upLeft;
+	const distanceLeft = Math.abs(estimate - left);
+	const distanceUp = Math.abs(estimate - up);
+	const distanceUpLeft = Math.abs(estimate - upLeft);
+
+	if (distanceLeft <= distanceUp && distanceLeft <= distanceUpLeft) return left;
+	if (distanceUp <= distanceUpLeft) return up;
+	return upLeft;
+}
+
+/**
+ * Builds a PNG chunk
+ *
+ * @param type - The four-letter chunk type
+ * @param data - The chunk data
+ * @returns The length, type, data and CRC of the chunk
+ */
+function writeChunk(type: string, data: Uint8Array): Uint8Array {
+	const chunk = new Uint8Array(data.length + 12);
+	const view = new DataView(chunk.buffer);
+	view.setUint32(0, data.length);
+	for (let i = 0; i < 4; i++) {
+		chunk[4 + i] = type.charCodeAt(i);
+	}
+	chunk.set(data, 8);
+	view.setUint32(data.length + 8, crc32(chunk.subarray(4, data.length + 8)));
+	return chunk;
+}
@@ -0,0 +1,81 @@
+/**
+ * Key-Seeded Pseudo-Random Number Generation
+ *
+ * Deterministic PRNG used to scatter embedded bits across an image. The same
+ * key always produces the same sequence, so the decoder can retrace the
+ * positions chosen by the encoder.
+ */
+
+/**
+ * Creates a pseudo-random number generator seeded from a string key
+ *
+ * Uses the cyrb128 hash to derive a 128-bit seed and the sfc32 generator.
+ *
+ * @param key - The key to seed the generator with
+ * @returns A function that returns uniformly distributed numbers in [0, 1)
+ */
+export function createRandom(key: string): () => number {
+	let h1 = 1779033703;
+	let h2 = 3144134277;
+	let h3 = 1013904242;
+	let h4 = 2773480762;
+	for (let i = 0; i < key.length; i++) {
+		const k = key.charCodeAt(i);
+		h1 = h2 ^ Math.imul(h1 ^ k, 597399067);
+		h2 = h3 ^ Math.imul(h2 ^ k, 2869860233);
+		h3 = h4 ^ Math.imul(h3 ^ k, 951274213);
+		h4 = h1 ^ Math.imul(h4 ^ k, 2716044179);
+	}
+	h1 = Math.imul(h3 ^ (h1 >>> 18), 597399067);
+	h2 = Math.imul(h4 ^ (h2 >>> 22), 2869860233);
+	h3 = Math.imul(h1 ^ (h3 >>> 17), 951274213);
+	h4 = Math.imul(h2 ^ (h4 >>> 19), 2716044179);
+
+	let a = (h1 ^ h2 ^ h3 ^ h4) >>> 0;
+	let b = (h2 ^ h1) >>> 0;
+	let c = (h3 ^ h1) >>> 0;
+	let d = (h4 ^ h1) >>> 0;
+
+	return () => {
+		const t = (((a + b) | 0) + d) | 0;
+		d = (d + 1) | 0;
+		a = b ^ (b >>> 9);
+		b = (c + (c << 3)) | 0;
+		c = (c << 21) | (c >>> 11);
+		c = (c + t) | 0;
+		return (t >>> 0) / 4294967296;
+	};
+}
+
+/**
+ * Generates the first entries of a key-seeded permutation of [0, length)
+ *
+ * Uses a forward Fisher-Yates shuffle, so the first `count` entries are the
+ * same no matter how many entries are requested afterwards.
+ *
+ * @param length - The number of elements being permuted
+ * @param count - The number of permuted indices to return
+ * @param key - The key to seed the permutation with
+ * @returns The first `count` indices of the permutation
+ */
+export function keyedPermutation(
+	length: number,
+	count: number,
+	key: string,
+): Uint32Array {
+	const random = createRandom(key);
+	const indices = new Uint32Array(length);
+	for (let i = 0; i < length; i++) {
+		indices[i] = i;
+	}
+
+	const steps = Math.min(count, length);
+	for (let i = 0; i < steps; i++) {
+		const j = i + Math.floor(random() * (length - i));
+		const tmp = indices[i];
+		indices[i] = indices[j];
+		indices[j] = tmp;
+	}
+
+	return indices.subarray(0, steps);
+}
@@ -0,0 +1,265 @@
+/**
+ * Reed-Solomon Error Correction
+ *
+ * Systematic Reed-Solomon codes over GF(2^8) (primitive polynomial 0x11d),
+ * used to let payloads survive bit errors introduced by lossy techniques.
+ * A codeword of up to 255 bytes carries `nsym` parity bytes and can correct
+ * up to `nsym / 2` corrupted bytes.
+ *
+ * Polynomials are arrays of coefficients, highest degree first.
+ */
+
+/**
+ * Thrown when a codeword has more errors than the code can correct
+ */
+export class ReedSolomonError extends Error {
+	constructor(message = "Too many errors to correct") {
+		super(message);
+		this.name = "ReedSolomonError";
+	}
+}
+
+// Maximum length of a codeword (data plus parity) in bytes
+export const MAX_CODEWORD_SIZE = 255;
+
+const EXP = new Uint8Array(512);
+const LOG = new Uint8Array(256);
+
+// Build the exponent and logarithm tables once
+(() => {
+	let x = 1;
+	for (let i = 0; i < 255; i++) {
+		EXP[i] = x;
+		LOG[x] = i;
+		x <<= 1;
+		if (x & 0x100) x ^= 0x11d;
+	}
+	// Duplicate the table so products of logs never need a modulo
+	for (let i = 255; i < 512; i++) {
+		EXP[i] = EXP[i - 255];
+	}
+})();
+
+function gfMul(x: number, y: number): number {
+	if (x === 0 || y === 0) return 0;
+	return EXP[LOG[x] + LOG[y]];
+}
+
+function gfDiv(x: number, y: number): number {
+	if (y === 0) throw new RangeError("Division by zero in GF(256)");
+	if (x === 0) return 0;
+	return EXP[(LOG[x] + 255 - LOG[y]) % 255];
+}
+
+function gfPow(x: number, power: number): number {
+	return EXP[(((LOG[x] * power) % 255) + 255) % 255];
+}
+
+function gfInverse(x: number): number {
+	return EXP[255 - LOG[x]];
+}
+
+function polyScale(p: number[], x: number): number[] {
+	return p.map((c) => gfMul(c, x));
+}
+
+function polyAdd(p: number[], q: number[]): number[] {
+	const r = new Array(Math.max(p.length, q.length)).fill(0);
+	for (let i = 0; i < p.length; i++) r[i + r.length - p.length] = p[i];
+	for (let i = 0; i < q.length; i++) r[i + r.length - q.length] ^= q[i];
+	return r;
+}
+
+function polyMul(p: number[], q: number[]): number[] {
+	const r = new Array(p.length + q.length - 1).fill(0);
+	for (let j = 0; j < q.length; j++) {
+		for (let i = 0; i < p.length; i++) {
+			r[i + j] ^= gfMul(p[i], q[j]);
+		}
+	}
+	return r;
+}
+
+function polyEval(p: ArrayLike<number>, x: number): number {
+	let y = p[0];
+	for (let i = 1; i < p.length; i++) {
+		y = gfMul(y, x) ^ p[i];
+	}
+	return y;
+}
+
+const generatorCache = new Map<number, number[]>();
+
+function generatorPoly(nsym: number): number[] {
+	let g = generatorCache.get(nsym);
+	if (!g) {
+		g = [1];
+		for (let i = 0; i < nsym; i++) {
+			g = polyMul(g, [1, gfPow(2, i)]);
+		}
+		generatorCache.set(nsym, g);
+	}
+	return g;
+}
+
+/**
+ * Encodes data into a systematic Reed-Solomon codeword
+ *
+ * @param data - The data bytes (at most 255 - nsym)
+ * @param nsym - The number of parity bytes to add
+ * @returns The data followed by nsym parity bytes
+ */
+export function rsEncode(data: Uint8Array, nsym: number): Uint8Array {
+	if (data.length + nsym > MAX_CODEWORD_SIZE) {
+		throw new RangeError(
+			`Codeword too long: ${data.length + nsym} > ${MAX_CODEWORD_SIZE}`,
+		);
+	}
+
+	const gen = generatorPoly(nsym);
+	const out = new Uint8Array(data.length + nsym);
+	out.set(data);
+
+	// Polynomial long division; the remainder is the parity
+	for (let i = 0; i < data.length; i++) {
+		const coef = out[i];
+		if (coef !== 0) {
+			for (let j = 1; j < gen.length; j++) {
+				out[i + j] ^= gfMul(gen[j], coef);
+			}
+		}
+	}
+
+	out.set(data);
+	return out;
+}
+
+/**
+ * Decodes a Reed-Solomon codeword, correcting errors if possible
+ *
+ * @param codeword - The data followed by nsym parity bytes
+ * @param nsym - The number of parity bytes
+ * @returns The corrected data bytes and the number of bytes that were corrected
+ * @throws ReedSolomonError if the codeword has too many errors
+ */
+export function rsDecode(
+	codeword: Uint8Array,
+	nsym: number,
+): { data: Uint8Array; corrected: number } {
+	const msg = Array.from(codeword);
+	const dataLength = msg.length - nsym;
+
+	const synd = calcSyndromes(msg, nsym);
+	if (synd.every((s) => s === 0)) {
+		return { data: codeword.slice(0, dataLength), corrected: 0 };
+	}
+
+	const errLoc = findErrorLocator(synd, nsym);
+	const errPos = findErrors(errLoc.slice().reverse(), msg.length);
+	const corrected = correctErrata(msg, synd, errPos);
+
+	if (calcSyndromes(corrected, nsym).some((s) => s !== 0)) {
+		throw new ReedSolomonError("Could not correct the codeword");
+	}
+
+	return {
+		data: Uint8Array.from(corrected.slice(0, dataLength)),
+		corrected: errPos.length,
+	};
+}
+
+function calcSyndromes(msg: number[], nsym: number): number[] {
+	// The leading 0 keeps the indices aligned with the usual formulas
+	const synd = [0];
+	for (let i = 0; i < nsym; i++) {
+		synd.push(polyEval(msg, gfPow(2, i)));
+	}
+	return synd;
+}
+
+// Berlekamp-Massey algorithm
+function findErrorLocator(synd: number[], nsym: number): number[] {
+	let errLoc = [1];
+	let oldLoc = [1];
+	const syndShift = synd.length - nsym;
+
+	for (let i = 0; i < nsym; i++) {
+		const k = i + syndShift;
+		let delta = synd[k];
+		for (let j = 1; j < errLoc.length; j++) {
+			delta ^= gfMul(errLoc[errLoc.length - 1 - j], synd[k - j]);
+		}
+
+		oldLoc = [...oldLoc, 0];
+		if (delta !== 0) {
+			if (oldLoc.length > errLoc.length) {
+				const newLoc = polyScale(oldLoc, delta);
+				oldLoc = polyScale(errLoc, gfInverse(delta));
+				errLoc = newLoc;
+			}
+			errLoc = polyAdd(errLoc, polyScale(oldLoc, delta));
+		}
+	}
+
+	while (errLoc.length > 0 && errLoc[0] === 0) errLoc.shift();
+
+	if ((errLoc.length - 1) * 2 > nsym) {
+		throw new ReedSolomonError();
+	}
+	return errLoc;
+}
+
+// Chien search
+function findErrors(errLoc: number[], length: number): number[] {
+	const errPos: number[] = [];
+	for (let i = 0; i < length; i++) {
+		if (polyEval(errLoc, gfPow(2, i)) === 0) {
+			errPos.push(length - 1 - i);
+		}
+	}
+
+	if (errPos.length !== errLoc.length - 1) {
+		throw new ReedSolomonError();
+	}
+	return errPos;
+}
+
+// Forney algorithm
+function correctErrata(
+	msg: number[],
+	synd: number[],
+	errPos: number[],
+): number[] {
+	const coefPos = errPos.map((p) => msg.length - 1 - p);
+
+	let errLoc = [1];
+	for (const i of coefPos) {
+		errLoc = polyMul(errLoc, polyAdd([1], [gfPow(2, i), 0]));
+	}
+
+	// Error evaluator: (S(x) * Lambda(x)) mod x^(errors + 1)
+	const product = polyMul(synd.slice().reverse(), errLoc);
+	const errEval = product.slice(product.length - errLoc.length).reverse();
+
+	const x = coefPos.map((p) => gfPow(2, p));
+	const magnitudes = new Array(msg.length).fill(0);
+
+	for (let i = 0; i < x.length; i++) {
+		const xiInv = gfInverse(x[i]);
+
+		let errLocPrime = 1;
+		for (let j = 0; j < x.length; j++) {
+			if (j !== i) {
+				errLocPrime = gfMul(errLocPrime, 1 ^ gfMul(xiInv, x[j]));
+			}
+		}
+		if (errLocPrime === 0) {
+			throw new ReedSolomonError();
+		}
+
+		const y = gfMul(x[i], polyEval(errEval.slice().reverse(), xiInv));
+		magnitudes[errPos[i]] = gfDiv(y, errLocPrime);
+	}
+
+	return polyAdd(msg, magnitudes);
+}
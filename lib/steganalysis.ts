@@ -0,0 +1,388 @@
+/**
+ * Steganalysis
+ *
+ * Statistical attacks that estimate how much of an image's color channels
+ * carry LSB-embedded data:
+ *
+ * - Chi-square attack (Westfeld and Pfitzmann): embedding equalizes the
+ *   counts of each pair of values 2k and 2k + 1.
+ * - RS analysis (Fridrich, Goljan and Du): embedding moves the proportions
+ *   of regular and singular pixel groups under LSB flipping in a predictable
+ *   way.
+ * - Sample pair analysis (Dumitrescu, Wu and Wang): embedding changes the
+ *   balance of trace sets of adjacent pixel pairs.
+ *
+ * RS analysis and sample pair analysis estimate the embedding rate, the
+ * fraction of channel values carrying message bits. The chi-square attack
+ * only yields a probability; it is reported for reference but left out of
+ * the verdict, since naturally smooth histograms also have nearly equal
+ * pairs and trigger it on clean images.
+ */
+
+export interface ChannelAnalysis {
+	/** Name of the color channel */
+	channel: string;
+	/** Probability that the whole channel carries embedded data */
+	chiSquareProbability: number;
+	/** Embedding rate estimated by RS analysis */
+	rsRate: number;
+	/** Embedding rate estimated by sample pair analysis */
+	spaRate: number;
+	/** Combined embedding rate estimate */
+	estimatedRate: number;
+}
+
+export type SteganalysisVerdict = "clean" | "suspicious" | "stego";
+
+export interface SteganalysisReport {
+	channels: ChannelAnalysis[];
+	/** Highest combined embedding rate over all channels */
+	estimatedRate: number;
+	verdict: SteganalysisVerdict;
+}
+
+// Color channels that are analyzed; alpha is usually constant
+const ANALYZED_CHANNELS = ["Red", "Green", "Blue"];
+
+// Minimum expected count for a value pair to enter the chi-square statistic
+const CHI_SQUARE_MIN_EXPECTED = 5;
+
+// Mask applied to RS analysis groups of four horizontally adjacent values
+const RS_MASK = [0, 1, 1, 0];
+
+// Embedding rates above which an image is considered suspicious or stego
+const SUSPICIOUS_RATE = 0.05;
+const STEGO_RATE = 0.15;
+
+/**
+ * Runs every attack on each color channel of an image
+ *
+ * @param data - The RGBA image data
+ * @param width - The width of the image
+ * @param height - The height of the image
+ * @returns The per-channel estimates and an overall verdict
+ */
+export function analyzePixels(
+	data: Uint8ClampedArray,
+	width: number,
+	height: number,
+): SteganalysisReport {
+	const channels = ANALYZED_CHANNELS.map((name, channel) => {
+		const values = channelValues(data, channel);
+		const rsRate = rsAnalysis(values, width, height);
+		const spaRate = samplePairAnalysis(values, width, height);
+
+		return {
+			channel: name,
+			chiSquareProbability: chiSquareAttack(values),
+			rsRate,
+			spaRate,
+			estimatedRate: (rsRate + spaRate) / 2,
+		};
+	});
+
+	const estimatedRate = Math.max(...channels.map((c) => c.estimatedRate));
+
+	return { channels, estimatedRate, verdict: getVerdict(estimatedRate) };
+}
+
+/**
+ * Maps an embedding rate to a verdict
+ *
+ * @param rate - The highest embedding rate found
+ * @returns The suspicion verdict
+ */
+function getVerdict(rate: number): SteganalysisVerdict {
+	if (rate >= STEGO_RATE) return "stego";
+	if (rate >= SUSPICIOUS_RATE) return "suspicious";
+	return "clean";
+}
+
+/**
+ * Extracts one color channel of RGBA image data
+ *
+ * @param data - The RGBA image data
+ * @param channel - The channel offset (0 = red, 1 = green, 2 = blue)
+ * @returns The channel values in scan order
+ */
+function channelValues(data: Uint8ClampedArray, channel: number): Uint8Array {
+	const values = new Uint8Array(data.length / 4);
+	for (let i = 0; i < values.length; i++) {
+		values[i] = data[i * 4 + channel];
+	}
+	return values;
+}
+
+/**
+ * Runs the chi-square attack on a channel
+ *
+ * @param values - The channel values
+ * @returns The probability that the channel carries embedded data, between 0 and 1
+ */
+function chiSquareAttack(values: Uint8Array): number {
+	const histogram = new Array(256).fill(0);
+	for (const value of values) {
+		histogram[value]++;
+	}
+
+	let statistic = 0;
+	let pairs = 0;
+
+	for (let k = 0; k < 256; k += 2) {
+		const expected = (histogram[k] + histogram[k + 1]) / 2;
+		if (expected < CHI_SQUARE_MIN_EXPECTED) continue;
+
+		statistic += (histogram[k] - expected) ** 2 / expected;
+		pairs++;
+	}
+
+	if (pairs < 2) return 0;
+
+	// The p-value of the statistic with one degree of freedom less than the pairs
+	return 1 - regularizedGammaP((pairs - 1) / 2, statistic / 2);
+}
+
+/**
+ * Estimates the embedding rate of a channel with RS analysis
+ *
+ * @param values - The channel values in scan order
+ * @param width - The width of the image
+ * @param height - The height of the image
+ * @returns The estimated embedding rate, between 0 and 1
+ */
+function rsAnalysis(values: Uint8Array, width: number, height: number): number {
+	const flipped = values.map((value) => value ^ 1);
+	const [rm0, sm0, rn0, sn0] = rsGroupCounts(values, width, height);
+	const [rm1, sm1, rn1, sn1] = rsGroupCounts(flipped, width, height);
+
+	const d0 = rm0 - sm0;
+	const d1 = rm1 - sm1;
+	const dn0 = rn0 - sn0;
+	const dn1 = rn1 - sn1;
+
+	const a = 2 * (d1 + d0);
+	const b = dn0 - dn1 - d1 - 3 * d0;
+	const c = d0 - dn0;
+
+	const z = smallestRoot(a, b, c);
+	if (z === null || z === 0.5) return 0;
+	return clampRate(z / (z - 0.5));
+}
+
+/**
+ * Counts the regular and singular groups of a channel under the RS mask and
+ * its negation
+ *
+ * @param values - The channel values in scan order
+ * @param width - The width of the image
+ * @param height - The height of the image
+ * @returns The shares of regular and singular groups under the mask, then under the negated mask
+ */
+function rsGroupCounts(
+	values: Uint8Array,
+	width: number,
+	height: number,
+): [number, number, number, number] {
+	const size = RS_MASK.length;
+	const group = new Array(size);
+	const flipped = new Array(size);
+	let regular = 0;
+	let singular = 0;
+	let negRegular = 0;
+	let negSingular = 0;
+	let groups = 0;
+
+	for (let y = 0; y < height; y++) {
+		for (let x = 0; x + size <= width; x += size) {
+			for (let i = 0; i < size; i++) {
+				group[i] = values[y * width + x + i];
+			}
+			const smoothness = groupVariation(group);
+
+			// Positive flipping swaps 2k and 2k + 1
+			for (let i = 0; i < size; i++) {
+				flipped[i] = RS_MASK[i] ? group[i] ^ 1 : group[i];
+			}
+			const positive = groupVariation(flipped);
+
+			// Negative flipping swaps 2k - 1 and 2k
+			for (let i = 0; i < size; i++) {
+				flipped[i] = RS_MASK[i] ? ((group[i] + 1) ^ 1) - 1 : group[i];
+			}
+			const negative = groupVariation(flipped);
+
+			if (positive > smoothness) regular++;
+			else if (positive < smoothness) singular++;
+			if (negative > smoothness) negRegular++;
+			else if (negative < smoothness) negSingular++;
+			groups++;
+		}
+	}
+
+	if (groups === 0) return [0, 0, 0, 0];
+	return [
+		regular / groups,
+		singular / groups,
+		negRegular / groups,
+		negSingular / groups,
+	];
+}
+
+/**
+ * Measures the noisiness of a pixel group
+ *
+ * @param group - The group values
+ * @returns The sum of absolute differences between neighbouring values
+ */
+function groupVariation(group: number[]): number {
+	let variation = 0;
+	for (let i = 1; i < group.length; i++) {
+		variation += Math.abs(group[i] - group[i - 1]);
+	}
+	return variation;
+}
+
+/**
+ * Estimates the embedding rate of a channel with sample pair analysis
+ *
+ * @param values - The channel values in scan order
+ * @param width - The width of the image
+ * @param height - The height of the image
+ * @returns The estimated embedding rate, between 0 and 1
+ */
+function samplePairAnalysis(
+	values: Uint8Array,
+	width: number,
+	height: number,
+): number {
+	let x = 0;
+	let y = 0;
+	let closePairs = 0;
+	let pairs = 0;
+
+	for (let row = 0; row < height; row++) {
+		for (let col = 0; col + 1 < width; col++) {
+			const u = values[row * width + col];
+			const v = values[row * width + col + 1];
+
+			if ((v % 2 === 0 && u < v) || (v % 2 === 1 && u > v)) x++;
+			if ((v % 2 === 0 && u > v) || (v % 2 === 1 && u < v)) y++;
+			if (u >> 1 === v >> 1) closePairs++;
+			pairs++;
+		}
+	}
+
+	if (closePairs === 0) return 0;
+
+	const rate = smallestRoot(closePairs / 2, 2 * x - pairs, y - x);
+	return rate === null ? 0 : clampRate(rate);
+}
+
+/**
+ * Solves a quadratic equation for its root of smallest magnitude
+ *
+ * @param a - The quadratic coefficient
+ * @param b - The linear coefficient
+ * @param c - The constant coefficient
+ * @returns The root closest to zero, or null if the equation is degenerate
+ */
+function smallestRoot(a: number, b: number, c: number): number | null {
+	if (a === 0) return b === 0 ? null : -c / b;
+
+	// Near full embedding, noise can push the discriminant slightly below
+	// zero; the vertex is then the closest real approximation of the roots
+	const discriminant = b * b - 4 * a * c;
+	if (discriminant < 0) return -b / (2 * a);
+
+	const sqrt = Math.sqrt(discriminant);
+	const r1 = (-b + sqrt) / (2 * a);
+	const r2 = (-b - sqrt) / (2 * a);
+	return Math.abs(r1) < Math.abs(r2) ? r1 : r2;
+}
+
+/**
+ * Clamps an embedding rate estimate to the range [0, 1]
+ *
+ * @param rate - The raw estimate
+ * @returns The clamped rate
+ */
+function clampRate(rate: number): number {
+	if (!Number.isFinite(rate)) return 0;
+	return Math.min(1, Math.max(0, rate));
+}
+
+/**
+ * Computes the regularized lower incomplete gamma function P(s, x)
+ *
+ * Uses the series expansion below s + 1 and a continued fraction above it.
+ *
+ * @param s - The shape parameter
+ * @param x - The upper limit of integration
+ * @returns The value of P(s, x)
+ */
+function regularizedGammaP(s: number, x: number): number {
+	if (x <= 0) return 0;
+
+	const logPrefix = s * Math.log(x) - x - logGamma(s);
+
+	if (x < s + 1) {
+		let term = 1 / s;
+		let sum = term;
+		for (let n = 1; n < 1000; n++) {
+			term *= x / (s + n);
+			sum += term;
+			if (Math.abs(term) < Math.abs(sum) * 1e-15) break;
+		}
+		return Math.min(1, sum * Math.exp(logPrefix));
+	}
+
+	// Lentz's method for the continued fraction of Q(s, x)
+	const tiny = 1e-300;
+	let b = x + 1 - s;
+	let c = 1 / tiny;
+	let d = 1 / b;
+	let h = d;
+	for (let n = 1; n < 1000; n++) {
+		const an = -n * (n - s);
+		b += 2;
+		d = an * d + b;
+		if (Math.abs(d) < tiny) d = tiny;
+		c = b + an / c;
+		if (Math.abs(c) < tiny) c = tiny;
+		d = 1 / d;
+		const delta = d * c;
+		h *= delta;
+		if (Math.abs(delta - 1) < 1e-15) break;
+	}
+	return Math.max(0, 1 - Math.exp(logPrefix) * h);
+}
+
+// Lanczos approximation coefficients (g = 7, n = 9)
+const LANCZOS = [
+	0.99999999999980993, 676.5203681218851, -1259.1392167224028,
+	771.32342877765313, -176.61502916214059, 12.507343278686905,
+	-0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7,
+];
+
+/**
+ * Computes the natural logarithm of the gamma function
+ *
+ * @param x - A positive number
+ * @returns The value of ln Γ(x)
+ */
+function logGamma(x: number): number {
+	if (x < 0.5) {
+		// Reflection formula
+		return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x);
+	}
+
+	x -= 1;
+	let sum = LANCZOS[0];
+	for (let i = 1; i < LANCZOS.length; i++) {
+		sum += LANCZOS[i] / (x + i);
+	}
+	const t = x + 7.5;
+	return (
+		0.5 * Math.log(2 * Math.PI) + (x + 0.5) * Math.log(t) - t + Math.log(sum)
+	);
+}
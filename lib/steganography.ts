@@ -1,650 +1,581 @@
 /**
  * Image Steganography Library
  *
- * This library provides functions to encode and decode messages in images
- * using various steganography techniques.
+ * This library provides functions to encode and decode messages and files in
+ * images using various steganography techniques. It is the browser adapter
+ * of the core in core.ts: it reads images from files and blobs with
+ * createImageBitmap, writes them with a canvas, and returns data URLs.
  */
 
+import { diffBitPlanes, extractBitPlane } from "@/lib/bitplane";
+import type { HiddenFile } from "@/lib/container";
+import {
+	compareImageTechniques,
+	decodeImage,
+	decodeImageBytes,
+	detectImageTechnique,
+	encodeImage,
+	getImageCapacity,
+	getPayloadSize as getContentSize,
+	getPixelHistograms,
+	restorePixels,
+	type ChannelHistogram,
+	type DecodedPayload,
+	type DecodeOptions,
+	type EncodedImage,
+	type EncodeOptions,
+	type ImageCodec,
+	type RawImage,
+} from "@/lib/core";
+import {
+	changeHeatmap,
+	checkSameSize,
+	computeQualityMetrics,
+	type QualityMetrics,
+} from "@/lib/metrics";
+import { analyzePixels, type SteganalysisReport } from "@/lib/steganalysis";
+
+export {
+	CapacityError,
+	DEFAULT_LSB_CHANNELS,
+	KEYED_TECHNIQUES,
+	MAX_LSB_BIT_DEPTH,
+	TECHNIQUES,
+} from "@/lib/core";
+export type {
+	ChannelHistogram,
+	DecodedPayload,
+	DecodeOptions,
+	EncodeOptions,
+	Progress,
+	ProgressCallback,
+} from "@/lib/core";
+
+/**
+ * Quality metrics of a stego image, along with a heatmap of its changes
+ */
+export interface ImageComparison extends QualityMetrics {
+	/** Data URL of the heatmap of changed pixels */
+	heatmap: string;
+}
+
+/**
+ * The outcome of encoding a message with one technique in compareTechniques
+ */
+export interface TechniqueComparison {
+	technique: string;
+	/** Usable capacity of the cover image in bytes, unless it could not be computed */
+	capacity?: number;
+	/** Data URL of the encoded image, unless encoding failed */
+	image?: string;
+	/** Time spent embedding the payload, without reading and writing the image files, in milliseconds */
+	encodingTime?: number;
+	quality?: ImageComparison;
+	steganalysis?: SteganalysisReport;
+	/** Why encoding failed, e.g. the message did not fit */
+	error?: string;
+}
+
+/**
+ * Reads image files with createImageBitmap and writes them with a canvas
+ */
+const browserCodec: ImageCodec = {
+	decode: (bytes) => loadPixels(new Blob([bytes])),
+	encodePng: async (image) => {
+		const { ctx } = createCanvas(image.width, image.height);
+		ctx.putImageData(
+			new ImageData(image.data, image.width, image.height),
+			0,
+			0,
+		);
+		return new Uint8Array(await (await canvasToPng(ctx.canvas)).arrayBuffer());
+	},
+};
+
 /**
  * Encodes a message into an image using the specified steganography technique
  *
  * @param image - The image file to encode the message into
  * @param message - The secret message to hide in the image
  * @param technique - The steganography technique to use
+ * @param options - Additional encoding options
  * @returns A Promise that resolves to a data URL of the encoded image
  */
 export async function encodeMessage(
 	image: File,
 	message: string,
 	technique = "lsb",
+	options: EncodeOptions = {},
 ): Promise<string> {
-	return new Promise((resolve, reject) => {
-		const reader = new FileReader();
-		reader.onload = () => {
-			const img = new Image();
-			img.crossOrigin = "anonymous";
-			img.onload = () => {
-				try {
-					const encodedDataUrl = processEncoding(img, message, technique);
-					resolve(encodedDataUrl);
-				} catch (error) {
-					reject(error);
-				}
-			};
-			img.onerror = () => reject(new Error("Failed to load image"));
-			img.src = reader.result as string;
-		};
-		reader.onerror = () => reject(new Error("Failed to read file"));
-		reader.readAsDataURL(image);
-	});
+	return encodeContent(image, message, technique, options);
 }
 
 /**
  * Decodes a message from an image using the specified steganography technique
  *
  * @param image - The image file containing the hidden message
- * @param technique - The steganography technique used for encoding
+ * @param technique - The steganography technique used for encoding, or "auto" to detect it
+ * @param options - Additional decoding options
  * @returns A Promise that resolves to the decoded message
  */
 export async function decodeMessage(
 	image: File,
 	technique = "lsb",
+	options: DecodeOptions = {},
 ): Promise<string> {
-	return new Promise((resolve, reject) => {
-		const reader = new FileReader();
-		reader.onload = () => {
-			const img = new Image();
-			img.crossOrigin = "anonymous";
-			img.onload = () => {
-				try {
-					const decodedMessage = processDecoding(img, technique);
-					resolve(decodedMessage);
-				} catch (error) {
-					reject(error);
-				}
-			};
-			img.onerror = () => reject(new Error("Failed to load image"));
-			img.src = reader.result as string;
-		};
-		reader.onerror = () => reject(new Error("Failed to read file"));
-		reader.readAsDataURL(image);
-	});
+	const result = await decodePayload(image, technique, options);
+	if (result.kind === "file") {
+		throw new Error(
+			`The hidden data is a file (${result.file.name}), not a text message.`,
+		);
+	}
+	return result.text;
 }
 
 /**
- * Processes the encoding of a message into an image
+ * Encodes arbitrary binary data into an image
  *
- * @param img - The Image object to encode the message into
- * @param message - The secret message to hide
+ * @param image - The image file to encode the data into
+ * @param payload - The bytes to hide in the image
  * @param technique - The steganography technique to use
- * @returns A data URL of the encoded image
+ * @param options - Additional encoding options
+ * @returns A Promise that resolves to a data URL of the encoded image
  */
-function processEncoding(
-	img: HTMLImageElement,
-	message: string,
-	technique: string,
-): string {
-	const canvas = document.createElement("canvas");
-	const ctx = canvas.getContext("2d");
-
-	if (!ctx) {
-		throw new Error("Could not create canvas context");
-	}
-
-	// Set canvas dimensions to match the image
-	canvas.width = img.width;
-	canvas.height = img.height;
-
-	// Draw the original image onto the canvas
-	ctx.drawImage(img, 0, 0);
+export async function encodeBytes(
+	image: File,
+	payload: Uint8Array,
+	technique = "lsb",
+	options: EncodeOptions = {},
+): Promise<string> {
+	return encodeContent(image, payload, technique, options);
+}
 
-	// Get the image data
-	const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-	const data = imageData.data;
+/**
+ * Decodes arbitrary binary data from an image
+ *
+ * @param image - The image file containing the hidden data
+ * @param technique - The steganography technique used for encoding, or "auto" to detect it
+ * @param options - Additional decoding options
+ * @returns A Promise that resolves to the decoded bytes (the file contents for hidden files)
+ */
+export async function decodeBytes(
+	image: File,
+	technique = "lsb",
+	options: DecodeOptions = {},
+): Promise<Uint8Array> {
+	return decodeImageBytes(
+		browserCodec,
+		await readBytes(image),
+		technique,
+		options,
+	);
+}
 
-	// Prepare the message (add a terminator to know where the message ends)
-	const messageWithTerminator = message + "§END§";
+/**
+ * Encodes a file into an image, preserving its name and MIME type
+ *
+ * @param image - The image file to encode the file into
+ * @param file - The file to hide in the image
+ * @param technique - The steganography technique to use
+ * @param options - Additional encoding options
+ * @returns A Promise that resolves to a data URL of the encoded image
+ */
+export async function encodeFile(
+	image: File,
+	file: File,
+	technique = "lsb",
+	options: EncodeOptions = {},
+): Promise<string> {
+	return encodeContent(image, await toHiddenFile(file), technique, options);
+}
 
-	// Convert the message to binary
-	const binaryMessage = textToBinary(messageWithTerminator);
+/**
+ * Decodes a payload from an image, whether it is a text message or a file
+ *
+ * @param image - The image file containing the hidden payload
+ * @param technique - The steganography technique used for encoding, or "auto" to detect it
+ * @param options - Additional decoding options
+ * @returns A Promise that resolves to the decoded payload
+ */
+export async function decodePayload(
+	image: File,
+	technique = "lsb",
+	options: DecodeOptions = {},
+): Promise<DecodedPayload> {
+	return decodeImage(browserCodec, await readBytes(image), technique, options);
+}
 
-	// Check if the image is large enough to hold the message
-	const maxBits = data.length * 0.75; // We can use 3 color channels (RGB) per pixel
-	if (binaryMessage.length > maxBits) {
-		throw new Error(
-			`Message too large for this image. Maximum size: ${Math.floor(maxBits / 8)} bytes.`,
-		);
-	}
+/**
+ * Detects which steganography technique was used to hide data in an image
+ *
+ * Tries each technique's extractor and picks the first one that yields a
+ * payload with a valid header and checksum.
+ *
+ * @param image - The image file to inspect
+ * @param options - Additional decoding options (the stego key is used if set)
+ * @returns A Promise that resolves to the detected technique, or null if no payload was found
+ */
+export async function detectTechnique(
+	image: File,
+	options: DecodeOptions = {},
+): Promise<string | null> {
+	return detectImageTechnique(browserCodec, await readBytes(image), options);
+}
 
-	// Apply the selected steganography technique
-	switch (technique) {
-		case "lsb":
-			applyLSB(data, binaryMessage);
-			break;
-		case "lsb-improved":
-			applyImprovedLSB(data, binaryMessage);
-			break;
-		case "patchwork":
-			applyPatchwork(data, binaryMessage, canvas.width, canvas.height);
-			break;
-		case "histogram":
-			applyHistogramShifting(data, binaryMessage);
-			break;
-		default:
-			throw new Error(`Unknown technique: ${technique}`);
-	}
+/**
+ * Restores the original cover image of an image encoded with Histogram Shifting
+ *
+ * @param image - The image file containing the hidden payload
+ * @returns A Promise that resolves to a data URL of the bit-exact cover image
+ * @throws NoPayloadError if the image holds no histogram shifting payload
+ */
+export async function restoreCover(image: File): Promise<string> {
+	return imageDataToDataUrl(restorePixels(await loadPixels(image)));
+}
 
-	// Put the modified image data back on the canvas
-	ctx.putImageData(imageData, 0, 0);
+/**
+ * Runs steganalysis attacks on an image to estimate whether it hides data
+ *
+ * @param image - The image file to analyze
+ * @returns A Promise that resolves to per-channel embedding rate estimates and a verdict
+ */
+export async function analyzeImage(image: File): Promise<SteganalysisReport> {
+	const { data, width, height } = await loadPixels(image);
+	return analyzePixels(data, width, height);
+}
 
-	// Convert the canvas to a data URL (PNG format to avoid lossy compression)
-	return canvas.toDataURL("image/png");
+/**
+ * Measures how much a stego image differs from its cover image
+ *
+ * @param cover - The cover image file or blob
+ * @param stego - The stego image file or blob
+ * @returns A Promise that resolves to the quality metrics and a data URL of the change heatmap
+ * @throws Error if the images have different dimensions
+ */
+export async function compareImages(
+	cover: Blob,
+	stego: Blob,
+): Promise<ImageComparison> {
+	const coverPixels = await loadPixels(cover);
+	const stegoPixels = await loadPixels(stego);
+	checkSameSize(coverPixels, stegoPixels);
+	const { width, height } = coverPixels;
+
+	const metrics = computeQualityMetrics(
+		coverPixels.data,
+		stegoPixels.data,
+		width,
+		height,
+	);
+	const heatmap = changeHeatmap(coverPixels.data, stegoPixels.data);
+	return {
+		...metrics,
+		heatmap: await imageDataToDataUrl({ width, height, data: heatmap }),
+	};
 }
 
 /**
- * Processes the decoding of a message from an image
+ * Encodes the same message with several techniques and measures each result
  *
- * @param img - The Image object containing the hidden message
- * @param technique - The steganography technique used for encoding
- * @returns The decoded message
+ * The techniques run one after another, so their embedding times are not
+ * skewed by each other.
+ *
+ * @param image - The cover image file
+ * @param message - The text message to hide
+ * @param techniques - The techniques to compare
+ * @param options - Additional encoding options, shared by all techniques
+ * @returns A Promise that resolves to the result of each technique, in order
  */
-function processDecoding(img: HTMLImageElement, technique: string): string {
-	const canvas = document.createElement("canvas");
-	const ctx = canvas.getContext("2d");
+export async function compareTechniques(
+	image: File,
+	message: string,
+	techniques?: string[],
+	options: EncodeOptions = {},
+): Promise<TechniqueComparison[]> {
+	const results = await compareImageTechniques(
+		browserCodec,
+		await readBytes(image),
+		message,
+		techniques,
+		options,
+	);
+
+	return Promise.all(
+		results.map(async ({ image, quality, heatmap, ...result }) => ({
+			...result,
+			image: image && encodedImageToDataUrl(image),
+			quality: quality &&
+				heatmap && {
+					...quality,
+					heatmap: await imageDataToDataUrl(heatmap),
+				},
+		})),
+	);
+}
 
-	if (!ctx) {
-		throw new Error("Could not create canvas context");
-	}
+/**
+ * Computes the per-channel histograms of an image along with the peak and
+ * zero points Histogram Shifting would use
+ *
+ * @param image - The image file or blob to inspect
+ * @returns A Promise that resolves to the histogram of each color channel
+ */
+export async function getChannelHistograms(
+	image: Blob,
+): Promise<ChannelHistogram[]> {
+	return getPixelHistograms(await loadPixels(image));
+}
 
-	// Set canvas dimensions to match the image
-	canvas.width = img.width;
-	canvas.height = img.height;
-
-	// Draw the image onto the canvas
-	ctx.drawImage(img, 0, 0);
-
-	// Get the image data
-	const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-	const data = imageData.data;
-
-	// Apply the selected steganography technique for decoding
-	let binaryMessage: string;
-	switch (technique) {
-		case "lsb":
-			binaryMessage = extractLSB(data);
-			break;
-		case "lsb-improved":
-			binaryMessage = extractImprovedLSB(data);
-			break;
-		case "patchwork":
-			binaryMessage = extractPatchwork(data, canvas.width, canvas.height);
-			break;
-		case "histogram":
-			binaryMessage = extractHistogramShifting(data);
-			break;
-		default:
-			throw new Error(`Unknown technique: ${technique}`);
+/**
+ * Reads the pixels of an image file
+ *
+ * Decodes with createImageBitmap and draws onto an OffscreenCanvas where
+ * available, so it also works inside a Web Worker.
+ *
+ * @param image - The image file or blob to read
+ * @returns A Promise that resolves to the RGBA pixel data of the image
+ */
+export async function loadPixels(image: Blob): Promise<ImageData> {
+	let bitmap: ImageBitmap;
+	try {
+		// Color management or premultiplied alpha would alter the hidden bits
+		bitmap = await createImageBitmap(image, {
+			colorSpaceConversion: "none",
+			premultiplyAlpha: "none",
+		});
+	} catch {
+		throw new Error("Failed to load image");
 	}
 
-	// Convert the binary message back to text
-	const fullMessage = binaryToText(binaryMessage);
+	const { ctx } = createCanvas(bitmap.width, bitmap.height);
+	ctx.drawImage(bitmap, 0, 0);
+	bitmap.close();
 
-	// Extract the actual message by removing the terminator
-	const terminatorIndex = fullMessage.indexOf("§END§");
-	if (terminatorIndex === -1) {
-		return fullMessage; // No terminator found, return the whole message
-	}
-
-	return fullMessage.substring(0, terminatorIndex);
+	return ctx.getImageData(0, 0, ctx.canvas.width, ctx.canvas.height);
 }
 
 /**
- * Converts text to a binary string
+ * Renders one bit plane of an image as a black and white image
  *
- * @param text - The text to convert
- * @returns A binary string representation of the text
+ * @param pixels - The pixels of the image, as returned by loadPixels
+ * @param channel - The channel offset (0 = red, 1 = green, 2 = blue, 3 = alpha)
+ * @param bit - The bit to render (0 = least significant, 7 = most significant)
+ * @returns A Promise that resolves to a data URL of the bit plane
  */
-function textToBinary(text: string): string {
-	let binary = "";
-	for (let i = 0; i < text.length; i++) {
-		const charCode = text.charCodeAt(i);
-		const bin = charCode.toString(2).padStart(8, "0");
-		binary += bin;
-	}
-	return binary;
+export async function renderBitPlane(
+	pixels: ImageData,
+	channel: number,
+	bit: number,
+): Promise<string> {
+	const plane = extractBitPlane(pixels.data, channel, bit);
+	return imageDataToDataUrl({
+		width: pixels.width,
+		height: pixels.height,
+		data: plane,
+	});
 }
 
 /**
- * Converts a binary string back to text
+ * Renders where one bit plane of a cover and a stego image differs
  *
- * @param binary - The binary string to convert
- * @returns The text representation of the binary string
+ * @param cover - The pixels of the cover image
+ * @param stego - The pixels of the stego image
+ * @param channel - The channel offset (0 = red, 1 = green, 2 = blue, 3 = alpha)
+ * @param bit - The bit to compare (0 = least significant, 7 = most significant)
+ * @returns A Promise that resolves to a data URL of the XOR of both bit planes and the number of differing pixels
+ * @throws Error if the images have different dimensions
  */
-function binaryToText(binary: string): string {
-	let text = "";
-	for (let i = 0; i < binary.length; i += 8) {
-		const byte = binary.substr(i, 8);
-		if (byte.length < 8) break; // Incomplete byte, stop processing
-		const charCode = Number.parseInt(byte, 2);
-		text += String.fromCharCode(charCode);
-	}
-	return text;
+export async function renderBitPlaneDiff(
+	cover: ImageData,
+	stego: ImageData,
+	channel: number,
+	bit: number,
+): Promise<{ image: string; changed: number }> {
+	checkSameSize(cover, stego);
+
+	const { plane, changed } = diffBitPlanes(
+		cover.data,
+		stego.data,
+		channel,
+		bit,
+	);
+	const image = await imageDataToDataUrl({
+		width: cover.width,
+		height: cover.height,
+		data: plane,
+	});
+	return { image, changed };
 }
 
 /**
- * Applies the Least Significant Bit (LSB) technique to hide a message
+ * Computes how many payload bytes an image can hold with a technique
  *
- * @param data - The image data array
- * @param binaryMessage - The binary message to hide
+ * @param image - The cover image file
+ * @param technique - The steganography technique to use
+ * @param options - Additional encoding options
+ * @returns A Promise that resolves to the usable capacity in bytes
  */
-function applyLSB(data: Uint8ClampedArray, binaryMessage: string): void {
-	let bitIndex = 0;
-
-	// Loop through pixels (RGBA values)
-	for (let i = 0; i < data.length; i += 4) {
-		// Only modify RGB channels (skip alpha)
-		for (let j = 0; j < 3; j++) {
-			if (bitIndex < binaryMessage.length) {
-				// Clear the LSB and set it to the message bit
-				data[i + j] =
-					(data[i + j] & 0xfe) | Number.parseInt(binaryMessage[bitIndex]);
-				bitIndex++;
-			} else {
-				return; // Message has been fully embedded
-			}
-		}
-	}
+export async function getCapacity(
+	image: File,
+	technique = "lsb",
+	options: EncodeOptions = {},
+): Promise<number> {
+	return getImageCapacity(
+		browserCodec,
+		await readBytes(image),
+		technique,
+		options,
+	);
 }
 
 /**
- * Extracts a message hidden using the LSB technique
+ * Computes how many bytes of capacity a message or file will use
  *
- * @param data - The image data array
- * @returns The binary message extracted from the image
+ * @param content - The message or file to hide
+ * @param options - Additional encoding options
+ * @returns A Promise that resolves to the payload size in bytes
  */
-function extractLSB(data: Uint8ClampedArray): string {
-	let binary = "";
-	const maxBits = Math.min(data.length * 0.75, 100000); // Limit to prevent excessive processing
-
-	// Loop through pixels (RGBA values)
-	for (let i = 0; i < data.length && binary.length < maxBits; i += 4) {
-		// Only read from RGB channels (skip alpha)
-		for (let j = 0; j < 3 && binary.length < maxBits; j++) {
-			// Extract the LSB
-			binary += (data[i + j] & 0x01).toString();
-		}
-	}
-
-	return binary;
+export async function getPayloadSize(
+	content: string | File,
+	options: EncodeOptions = {},
+): Promise<number> {
+	return getContentSize(
+		typeof content === "string" ? content : await toHiddenFile(content),
+		options,
+	);
 }
 
 /**
- * Applies an improved LSB technique that uses variable bit positions
+ * Encodes a message, file or bytes into an image file
  *
- * @param data - The image data array
- * @param binaryMessage - The binary message to hide
+ * @param image - The cover image file
+ * @param content - The content to hide
+ * @param technique - The steganography technique to use
+ * @param options - Additional encoding options
+ * @returns A Promise that resolves to a data URL of the encoded image
  */
-function applyImprovedLSB(
-	data: Uint8ClampedArray,
-	binaryMessage: string,
-): void {
-	let bitIndex = 0;
-
-	// Loop through pixels (RGBA values)
-	for (let i = 0; i < data.length; i += 4) {
-		// Use different bit positions for different color channels
-		if (bitIndex < binaryMessage.length) {
-			// Red channel - use 2nd LSB
-			data[i] =
-				(data[i] & 0xfd) | (Number.parseInt(binaryMessage[bitIndex]) << 1);
-			bitIndex++;
-		}
-
-		if (bitIndex < binaryMessage.length) {
-			// Green channel - use LSB
-			data[i + 1] =
-				(data[i + 1] & 0xfe) | Number.parseInt(binaryMessage[bitIndex]);
-			bitIndex++;
-		}
-
-		if (bitIndex < binaryMessage.length) {
-			// Blue channel - use 3rd LSB
-			data[i + 2] =
-				(data[i + 2] & 0xfb) | (Number.parseInt(binaryMessage[bitIndex]) << 2);
-			bitIndex++;
-		}
-
-		if (bitIndex >= binaryMessage.length) {
-			return; // Message has been fully embedded
-		}
-	}
+async function encodeContent(
+	image: File,
+	content: string | HiddenFile | Uint8Array,
+	technique: string,
+	options: EncodeOptions,
+): Promise<string> {
+	const encoded = await encodeImage(
+		browserCodec,
+		await readBytes(image),
+		content,
+		technique,
+		options,
+	);
+	return encodedImageToDataUrl(encoded);
 }
 
 /**
- * Extracts a message hidden using the improved LSB technique
+ * Reads the contents of a file
  *
- * @param data - The image data array
- * @returns The binary message extracted from the image
+ * @param file - The file or blob to read
+ * @returns A Promise that resolves to the bytes of the file
  */
-function extractImprovedLSB(data: Uint8ClampedArray): string {
-	let binary = "";
-	const maxBits = Math.min(data.length * 0.75, 100000); // Limit to prevent excessive processing
-
-	// Loop through pixels (RGBA values)
-	for (let i = 0; i < data.length && binary.length < maxBits; i += 4) {
-		// Red channel - extract from 2nd LSB
-		binary += ((data[i] & 0x02) >> 1).toString();
-
-		if (binary.length < maxBits) {
-			// Green channel - extract from LSB
-			binary += (data[i + 1] & 0x01).toString();
-		}
-
-		if (binary.length < maxBits) {
-			// Blue channel - extract from 3rd LSB
-			binary += ((data[i + 2] & 0x04) >> 2).toString();
-		}
-	}
-
-	return binary;
+async function readBytes(file: Blob): Promise<Uint8Array> {
+	return new Uint8Array(await file.arrayBuffer());
 }
 
 /**
- * Applies the Patchwork technique to hide a message
+ * Reads a file to hide, keeping its name and MIME type
  *
- * @param data - The image data array
- * @param binaryMessage - The binary message to hide
- * @param width - The width of the image
- * @param height - The height of the image
+ * @param file - The file to hide
+ * @returns A Promise that resolves to the file with its contents
  */
-function applyPatchwork(
-	data: Uint8ClampedArray,
-	binaryMessage: string,
-	width: number,
-	height: number,
-): void {
-	let bitIndex = 0;
-	const patchSize = 8; // Size of each patch
-
-	// Loop through the message bits
-	while (bitIndex < binaryMessage.length) {
-		// Calculate patch position based on bit index
-		const patchX = (bitIndex * 29) % (width - patchSize);
-		const patchY = (bitIndex * 37) % (height - patchSize);
-
-		// Get the current bit to embed
-		const bit = Number.parseInt(binaryMessage[bitIndex]);
-
-		// Apply the bit to the patch
-		for (let y = 0; y < patchSize; y++) {
-			for (let x = 0; x < patchSize; x++) {
-				const pixelIndex = ((patchY + y) * width + (patchX + x)) * 4;
-
-				// Modify the blue channel slightly based on the bit value
-				if (bit === 1) {
-					// Increase blue channel by 1 if not at max
-					if (data[pixelIndex + 2] < 255) {
-						data[pixelIndex + 2]++;
-					}
-				} else {
-					// Decrease blue channel by 1 if not at min
-					if (data[pixelIndex + 2] > 0) {
-						data[pixelIndex + 2]--;
-					}
-				}
-			}
-		}
-
-		bitIndex++;
-	}
+async function toHiddenFile(file: File): Promise<HiddenFile> {
+	return {
+		name: file.name,
+		mimeType: file.type || "application/octet-stream",
+		data: await readBytes(file),
+	};
 }
 
 /**
- * Extracts a message hidden using the Patchwork technique
+ * Creates a canvas with a 2D context, off-screen where supported
  *
- * @param data - The image data array
- * @param width - The width of the image
- * @param height - The height of the image
- * @returns The binary message extracted from the image
+ * @param width - The width of the canvas
+ * @param height - The height of the canvas
+ * @returns The 2D context of the canvas
  */
-function extractPatchwork(
-	data: Uint8ClampedArray,
+function createCanvas(
 	width: number,
 	height: number,
-): string {
-	let binary = "";
-	const patchSize = 8; // Size of each patch
-	const maxBits = 10000; // Limit to prevent excessive processing
-
-	// Extract bits
-	for (let bitIndex = 0; bitIndex < maxBits; bitIndex++) {
-		// Calculate patch position based on bit index (same algorithm as encoding)
-		const patchX = (bitIndex * 29) % (width - patchSize);
-		const patchY = (bitIndex * 37) % (height - patchSize);
-
-		// Calculate average blue value in the patch
-		let blueSum = 0;
-		let pixelCount = 0;
-
-		for (let y = 0; y < patchSize; y++) {
-			for (let x = 0; x < patchSize; x++) {
-				const pixelIndex = ((patchY + y) * width + (patchX + x)) * 4;
-				blueSum += data[pixelIndex + 2];
-				pixelCount++;
-			}
-		}
-
-		// Calculate average
-		const blueAvg = blueSum / pixelCount;
-
-		// Compare with surrounding area to determine bit value
-		let surroundingBlueSum = 0;
-		let surroundingPixelCount = 0;
-
-		// Sample surrounding area (1 pixel border around the patch)
-		for (let y = -1; y <= patchSize; y++) {
-			for (let x = -1; x <= patchSize; x++) {
-				// Skip the patch itself
-				if (y >= 0 && y < patchSize && x >= 0 && x < patchSize) continue;
-
-				// Check if the pixel is within image bounds
-				if (
-					patchY + y >= 0 &&
-					patchY + y < height &&
-					patchX + x >= 0 &&
-					patchX + x < width
-				) {
-					const pixelIndex = ((patchY + y) * width + (patchX + x)) * 4;
-					surroundingBlueSum += data[pixelIndex + 2];
-					surroundingPixelCount++;
-				}
-			}
-		}
-
-		// Calculate surrounding average
-		const surroundingBlueAvg =
-			surroundingPixelCount > 0
-				? surroundingBlueSum / surroundingPixelCount
-				: blueAvg;
-
-		// Determine bit value based on comparison
-		binary += blueAvg > surroundingBlueAvg ? "1" : "0";
-
-		// Check for terminator pattern every 8 bits
-		if (binary.length % 8 === 0 && binary.length >= 40) {
-			const text = binaryToText(binary);
-			if (text.includes("§END§")) {
-				return binary;
-			}
-		}
-	}
-
-	return binary;
-}
-
-// Fix the Histogram Shifting implementation
-function applyHistogramShifting(
-	data: Uint8ClampedArray,
-	binaryMessage: string,
-): void {
-	// We'll use the blue channel for embedding
-	const channel = 2;
-
-	// Step 1: Compute histogram
-	const histogram = new Array(256).fill(0);
-
-	// Skip the first 32 pixels (we'll use them for metadata)
-	for (let i = 32 * 4; i < data.length; i += 4) {
-		histogram[data[i + channel]]++;
-	}
-
-	// Step 2: Find peak point (most frequent value)
-	let peakPoint = 0;
-	let peakValue = 0;
-	for (let i = 0; i < 256; i++) {
-		if (histogram[i] > peakValue) {
-			peakValue = histogram[i];
-			peakPoint = i;
-		}
-	}
-
-	// Step 3: Find zero point (least frequent non-zero value near peak)
-	let zeroPoint = peakPoint > 127 ? peakPoint - 1 : peakPoint + 1;
-	let minValue = histogram[zeroPoint];
-
-	// Search for better zero point
-	const searchRange = 20; // Look within this range of the peak
-	const lowerBound = Math.max(1, peakPoint - searchRange);
-	const upperBound = Math.min(254, peakPoint + searchRange);
-
-	for (let i = lowerBound; i <= upperBound; i++) {
-		if (i !== peakPoint && histogram[i] < minValue && histogram[i] > 0) {
-			minValue = histogram[i];
-			zeroPoint = i;
-		}
-	}
+): { ctx: OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D } {
+	let ctx: OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D | null;
 
-	// Step 4: Shift histogram to create space
-	// If zero point is greater than peak point, shift right
-	// If zero point is less than peak point, shift left
-	const shiftRight = zeroPoint > peakPoint;
-
-	// Skip the first 32 pixels (metadata area)
-	for (let i = 32 * 4; i < data.length; i += 4) {
-		const pixelValue = data[i + channel];
-
-		if (shiftRight) {
-			// Shift values between peak and zero to the right
-			if (pixelValue > peakPoint && pixelValue < zeroPoint) {
-				data[i + channel] = pixelValue + 1;
-			}
-		} else {
-			// Shift values between zero and peak to the left
-			if (pixelValue > zeroPoint && pixelValue < peakPoint) {
-				data[i + channel] = pixelValue - 1;
-			}
-		}
+	if (typeof OffscreenCanvas !== "undefined") {
+		ctx = new OffscreenCanvas(width, height).getContext("2d");
+	} else {
+		const canvas = document.createElement("canvas");
+		canvas.width = width;
+		canvas.height = height;
+		ctx = canvas.getContext("2d");
 	}
 
-	// Step 5: Embed data
-	let bitIndex = 0;
-
-	// Skip the first 32 pixels (metadata area)
-	for (
-		let i = 32 * 4;
-		i < data.length && bitIndex < binaryMessage.length;
-		i += 4
-	) {
-		if (data[i + channel] === peakPoint) {
-			const bit = Number.parseInt(binaryMessage[bitIndex]);
-
-			// If bit is 1, shift the peak value
-			if (bit === 1) {
-				data[i + channel] = shiftRight ? peakPoint + 1 : peakPoint - 1;
-			}
-
-			bitIndex++;
-		}
+	if (!ctx) {
+		throw new Error("Could not create canvas context");
 	}
+	return { ctx };
+}
 
-	// Store metadata in the first 32 pixels
-	// First 8 pixels: signature pattern [10, 20, 30, 40, 50, 60, 70, 80]
-	for (let i = 0; i < 8; i++) {
-		data[i * 4 + channel] = (i + 1) * 10;
+/**
+ * Exports the contents of a canvas as a PNG
+ *
+ * @param canvas - The canvas to export
+ * @returns A Promise that resolves to the PNG blob (PNG format to avoid lossy compression)
+ */
+async function canvasToPng(
+	canvas: OffscreenCanvas | HTMLCanvasElement,
+): Promise<Blob> {
+	if ("convertToBlob" in canvas) {
+		return canvas.convertToBlob({ type: "image/png" });
 	}
 
-	// Next 2 pixels: peak point and zero point
-	data[8 * 4 + channel] = peakPoint;
-	data[9 * 4 + channel] = zeroPoint;
+	return new Promise((resolve, reject) => {
+		canvas.toBlob(
+			(blob) =>
+				blob ? resolve(blob) : reject(new Error("Failed to export image")),
+			"image/png",
+		);
+	});
+}
 
-	// Next 2 pixels: shift direction and message length
-	data[10 * 4 + channel] = shiftRight ? 1 : 0;
-	data[11 * 4 + channel] = Math.min(255, binaryMessage.length / 8); // Store length in bytes (max 255)
+/**
+ * Encodes pixels as a PNG data URL
+ *
+ * @param image - The pixels to export
+ * @returns A Promise that resolves to a data URL of the image
+ */
+async function imageDataToDataUrl(image: RawImage): Promise<string> {
+	return bytesToDataUrl(await browserCodec.encodePng(image), "image/png");
+}
 
-	// If message is longer than 255 bytes, store the rest in the next pixel
-	if (binaryMessage.length / 8 > 255) {
-		data[12 * 4 + channel] = Math.floor(binaryMessage.length / 8 / 256);
-	} else {
-		data[12 * 4 + channel] = 0;
-	}
+/**
+ * Converts an encoded image file to a data URL
+ *
+ * @param image - The encoded image
+ * @returns The data URL
+ */
+function encodedImageToDataUrl(image: EncodedImage): string {
+	return bytesToDataUrl(image.bytes, image.mimeType);
 }
 
 /**
- * Extracts a message hidden using Histogram Shifting
+ * Encodes bytes as a base64 data URL
  *
- * @param data - The image data array
- * @returns The binary message extracted from the image
+ * @param bytes - The file contents
+ * @param mimeType - The MIME type of the file
+ * @returns The data URL
  */
-function extractHistogramShifting(data: Uint8ClampedArray): string {
+function bytesToDataUrl(bytes: Uint8Array, mimeType: string): string {
 	let binary = "";
-
-	// We used the blue channel for embedding
-	const channel = 2;
-
-	// Check for signature pattern in first 8 pixels
-	let isValidSignature = true;
-	for (let i = 0; i < 8; i++) {
-		if (data[i * 4 + channel] !== (i + 1) * 10) {
-			isValidSignature = false;
-			break;
-		}
-	}
-
-	if (!isValidSignature) {
-		throw new Error(
-			"Invalid histogram shifting signature. This image may not contain hidden data or was encoded with a different technique.",
-		);
+	// Convert in chunks to stay within the argument limit of fromCharCode
+	for (let i = 0; i < bytes.length; i += 0x8000) {
+		binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
 	}
-
-	// Extract metadata
-	const peakPoint = data[8 * 4 + channel];
-	//const zeroPoint = data[9 * 4 + channel]
-	const shiftRight = data[10 * 4 + channel] === 1;
-
-	// Get message length (in bytes)
-	let messageLength = data[11 * 4 + channel] + data[12 * 4 + channel] * 256;
-	messageLength *= 8; // Convert to bits
-
-	// Extract bits
-	// Start from pixel 32 to skip the metadata area
-	for (
-		let i = 32 * 4;
-		i < data.length && binary.length < messageLength;
-		i += 4
-	) {
-		const pixelValue = data[i + channel];
-
-		if (pixelValue === peakPoint) {
-			// If pixel value is at peak point, bit is 0
-			binary += "0";
-		} else if (
-			(shiftRight && pixelValue === peakPoint + 1) ||
-			(!shiftRight && pixelValue === peakPoint - 1)
-		) {
-			// If pixel value is at shifted peak point, bit is 1
-			binary += "1";
-		}
-	}
-
-	return binary.substring(0, messageLength);
+	return `data:${mimeType};base64,${btoa(binary)}`;
 }
@@ -0,0 +1,93 @@
+/**
+ * Steganography Web Worker
+ *
+ * Runs one encoding, decoding or comparison request posted by the client in worker.ts,
+ * reporting progress as it goes, then posts the result or the error.
+ */
+
+import {
+	CapacityError,
+	compareTechniques,
+	decodePayload,
+	encodeFile,
+	encodeMessage,
+	type Progress,
+} from "@/lib/steganography";
+import type {
+	SerializedError,
+	WorkerRequest,
+	WorkerResponse,
+} from "@/lib/worker";
+
+/**
+ * Posts a response to the client
+ *
+ * @param response - The response to post
+ */
+function post(response: WorkerResponse): void {
+	self.postMessage(response);
+}
+
+/**
+ * Turns an error into a form that survives being posted to the client
+ *
+ * @param error - The thrown value
+ * @returns The serialized error
+ */
+function serializeError(error: unknown): SerializedError {
+	if (error instanceof CapacityError) {
+		return {
+			name: error.name,
+			message: error.message,
+			required: error.required,
+			available: error.available,
+		};
+	}
+	if (error instanceof Error) {
+		return { name: error.name, message: error.message };
+	}
+	return { name: "Error", message: String(error) };
+}
+
+self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+	const request = event.data;
+	const onProgress = (progress: Progress) =>
+		post({ type: "progress", progress });
+
+	try {
+		if (request.type === "encode") {
+			const options = { ...request.options, onProgress };
+			const result =
+				typeof request.content === "string"
+					? await encodeMessage(
+							request.image,
+							request.content,
+							request.technique,
+							options,
+						)
+					: await encodeFile(
+							request.image,
+							request.content,
+							request.technique,
+							options,
+						);
+			post({ type: "result", result });
+		} else if (request.type === "decode") {
+			const result = await decodePayload(request.image, request.technique, {
+				...request.options,
+				onProgress,
+			});
+			post({ type: "result", result });
+		} else {
+			const result = await compareTechniques(
+				request.image,
+				request.message,
+				request.techniques,
+				{ ...request.options, onProgress },
+			);
+			post({ type: "result", result });
+		}
+	} catch (error) {
+		post({ type: "error", error: serializeError(error) });
+	}
+};
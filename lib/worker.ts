@@ -0,0 +1,265 @@
+/**
+ * Web Worker Client
+ *
+ * Runs encoding, decoding and technique comparisons in a dedicated worker (steganography.worker.ts)
+ * so large images do not freeze the page. Each task gets its own worker, so
+ * cancelling a task simply terminates its worker. Where workers or
+ * OffscreenCanvas are unavailable, tasks run on the main thread instead.
+ */
+
+import { NoPayloadError, CorruptPayloadError } from "@/lib/container";
+import { DecryptionError } from "@/lib/crypto";
+import {
+	CapacityError,
+	compareTechniques,
+	decodePayload,
+	encodeFile,
+	encodeMessage,
+	type DecodedPayload,
+	type DecodeOptions,
+	type EncodeOptions,
+	type Progress,
+	type ProgressCallback,
+	type TechniqueComparison,
+} from "@/lib/steganography";
+
+/**
+ * Thrown when a task is cancelled before it finishes
+ */
+export class CancelledError extends Error {
+	constructor(message = "The operation was cancelled") {
+		super(message);
+		this.name = "CancelledError";
+	}
+}
+
+/**
+ * A running encoding or decoding task
+ */
+export interface WorkerTask<T> {
+	/** Resolves to the result of the task, or rejects with CancelledError if cancelled */
+	promise: Promise<T>;
+	cancel: () => void;
+}
+
+export type WorkerRequest =
+	| {
+			type: "encode";
+			image: File;
+			content: string | File;
+			technique: string;
+			options: Omit<EncodeOptions, "onProgress">;
+	  }
+	| {
+			type: "decode";
+			image: File;
+			technique: string;
+			options: Omit<DecodeOptions, "onProgress">;
+	  }
+	| {
+			type: "compare";
+			image: File;
+			message: string;
+			techniques?: string[];
+			options: Omit<EncodeOptions, "onProgress">;
+	  };
+
+export type WorkerResponse =
+	| { type: "progress"; progress: Progress }
+	| { type: "result"; result: string | DecodedPayload | TechniqueComparison[] }
+	| { type: "error"; error: SerializedError };
+
+/**
+ * An error in a form that survives being posted between threads
+ */
+export interface SerializedError {
+	name: string;
+	message: string;
+	/** Set for CapacityError */
+	required?: number;
+	/** Set for CapacityError */
+	available?: number;
+}
+
+/**
+ * Encodes a message or file into an image in a Web Worker
+ *
+ * @param image - The image file to encode into
+ * @param content - The message or file to hide
+ * @param technique - The steganography technique to use
+ * @param options - Additional encoding options, including the progress callback
+ * @returns The running task, which resolves to a data URL of the encoded image
+ */
+export function encodeInWorker(
+	image: File,
+	content: string | File,
+	technique: string,
+	options: EncodeOptions = {},
+): WorkerTask<string> {
+	const { onProgress, ...rest } = options;
+	return runTask<string>(
+		{ type: "encode", image, content, technique, options: rest },
+		onProgress,
+		() =>
+			typeof content === "string"
+				? encodeMessage(image, content, technique, options)
+				: encodeFile(image, content, technique, options),
+	);
+}
+
+/**
+ * Decodes a payload from an image in a Web Worker
+ *
+ * @param image - The image file containing the hidden payload
+ * @param technique - The steganography technique used for encoding, or "auto" to detect it
+ * @param options - Additional decoding options, including the progress callback
+ * @returns The running task, which resolves to the decoded payload
+ */
+export function decodeInWorker(
+	image: File,
+	technique: string,
+	options: DecodeOptions = {},
+): WorkerTask<DecodedPayload> {
+	const { onProgress, ...rest } = options;
+	return runTask<DecodedPayload>(
+		{ type: "decode", image, technique, options: rest },
+		onProgress,
+		() => decodePayload(image, technique, options),
+	);
+}
+
+/**
+ * Compares steganography techniques on an image in a Web Worker
+ *
+ * @param image - The cover image file
+ * @param message - The text message to hide
+ * @param techniques - The techniques to compare
+ * @param options - Additional encoding options, including the progress callback
+ * @returns The running task, which resolves to the result of each technique
+ */
+export function compareInWorker(
+	image: File,
+	message: string,
+	techniques?: string[],
+	options: EncodeOptions = {},
+): WorkerTask<TechniqueComparison[]> {
+	const { onProgress, ...rest } = options;
+	return runTask<TechniqueComparison[]>(
+		{ type: "compare", image, message, techniques, options: rest },
+		onProgress,
+		() => compareTechniques(image, message, techniques, options),
+	);
+}
+
+/**
+ * Checks whether tasks can run in a Web Worker
+ *
+ * @returns True if workers and OffscreenCanvas are both available
+ */
+function supportsWorkers(): boolean {
+	return (
+		typeof Worker !== "undefined" && typeof OffscreenCanvas !== "undefined"
+	);
+}
+
+/**
+ * Runs a request in a new worker, or on the main thread as a fallback
+ *
+ * @param request - The request to post to the worker
+ * @param onProgress - Optional callback for the worker's progress reports
+ * @param fallback - Runs the same task on the main thread
+ * @returns The running task
+ */
+function runTask<T>(
+	request: WorkerRequest,
+	onProgress: ProgressCallback | undefined,
+	fallback: () => Promise<T>,
+): WorkerTask<T> {
+	if (!supportsWorkers()) {
+		// The work cannot be stopped on the main thread, only its result ignored
+		let cancelled = false;
+		let rejectCancelled: (error: Error) => void = () => {};
+		const promise = new Promise<T>((resolve, reject) => {
+			rejectCancelled = reject;
+			fallback().then(
+				(result) => {
+					if (!cancelled) resolve(result);
+				},
+				(error) => {
+					if (!cancelled) reject(error);
+				},
+			);
+		});
+		return {
+			promise,
+			cancel: () => {
+				cancelled = true;
+				rejectCancelled(new CancelledError());
+			},
+		};
+	}
+
+	const worker = new Worker(
+		new URL("./steganography.worker.ts", import.meta.url),
+	);
+	let rejectCancelled: (error: Error) => void = () => {};
+
+	const promise = new Promise<T>((resolve, reject) => {
+		rejectCancelled = reject;
+
+		worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+			const response = event.data;
+			switch (response.type) {
+				case "progress":
+					onProgress?.(response.progress);
+					break;
+				case "result":
+					worker.terminate();
+					resolve(response.result as T);
+					break;
+				case "error":
+					worker.terminate();
+					reject(deserializeError(response.error));
+					break;
+			}
+		};
+		worker.onerror = (event) => {
+			worker.terminate();
+			reject(new Error(event.message || "The worker failed"));
+		};
+
+		worker.postMessage(request);
+	});
+
+	return {
+		promise,
+		cancel: () => {
+			worker.terminate();
+			rejectCancelled(new CancelledError());
+		},
+	};
+}
+
+/**
+ * Rebuilds an error posted by the worker, keeping its class where known
+ *
+ * @param error - The serialized error
+ * @returns The rebuilt error
+ */
+function deserializeError(error: SerializedError): Error {
+	switch (error.name) {
+		case "CapacityError":
+			return new CapacityError(error.required ?? 0, error.available ?? 0);
+		case "CorruptPayloadError":
+			return new CorruptPayloadError(error.message);
+		case "NoPayloadError":
+			return new NoPayloadError(error.message);
+		case "DecryptionError":
+			return new DecryptionError(error.message);
+		default: {
+			const rebuilt = new Error(error.message);
+			rebuilt.name = error.name;
+			return rebuilt;
+		}
+	}
+}
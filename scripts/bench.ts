@@ -0,0 +1,308 @@
+/**
+ * Bit Pipeline Benchmark
+ *
+ * Times hiding a 1 MB file in a 3-megapixel image and extracting it again
+ * with the library's encodePixels and decodePixels (LSB, no key), against
+ * the binary-string pipeline the typed bit buffers of lib/bits.ts replaced.
+ * The baseline below is the previous applyLSB and extractLSB, which built
+ * strings of "0" and "1" characters one at a time and parsed them back with
+ * Number.parseInt, around the same container; only its 100,000-bit cap on
+ * extraction is dropped so it can read the whole payload.
+ *
+ * Each pipeline decodes the other's output, so both are known to do the same
+ * work. Run it with `pnpm bench`; it exits with a non-zero code if either
+ * pipeline fails to read a payload back, or if the library is not faster.
+ */
+
+import {
+	FLAG_FILE,
+	type HiddenFile,
+	NoPayloadError,
+	readContainer,
+	readFileEntry,
+	writeContainer,
+	writeFileEntry,
+} from "@/lib/container";
+import { decodePixels, encodePixels, type RawImage } from "@/lib/core";
+
+const WIDTH = 2000;
+const HEIGHT = 1500;
+const PAYLOAD_SIZE = 1024 * 1024;
+
+// Each measurement is the fastest of this many runs
+const RUNS = 3;
+
+// Layout of the LSB technique with its default mode, one bit in each RGB
+// channel, matching lib/core.ts
+const LSB_TECHNIQUE_ID = 1;
+const LSB_MODE_PIXELS = 3;
+const LSB_MODE = { bitDepth: 1, channels: [0, 1, 2] };
+const LSB_MODE_BYTE = 0b0111;
+
+/**
+ * Builds a deterministic, noisy RGBA cover image
+ *
+ * @returns The cover image
+ */
+function createCover(): RawImage {
+	const data = new Uint8ClampedArray(WIDTH * HEIGHT * 4);
+	for (let i = 0; i < data.length; i++) {
+		data[i] = i % 4 === 3 ? 255 : (i * 7919 + (i >> 10)) % 251;
+	}
+	return { width: WIDTH, height: HEIGHT, data };
+}
+
+/**
+ * Builds a deterministic file of PAYLOAD_SIZE bytes
+ *
+ * @returns The file to hide
+ */
+function createFile(): HiddenFile {
+	const data = new Uint8Array(PAYLOAD_SIZE);
+	let state = 1;
+	for (let i = 0; i < data.length; i++) {
+		state = (state * 1103515245 + 12345) >>> 0;
+		data[i] = state >>> 24;
+	}
+	return { name: "payload.bin", mimeType: "application/octet-stream", data };
+}
+
+/**
+ * Converts an RGB channel slot to its index in the image data array
+ *
+ * @param slot - The slot number
+ * @returns The index of the channel value in the RGBA data
+ */
+function slotToIndex(slot: number): number {
+	return Math.floor(slot / 3) * 4 + (slot % 3);
+}
+
+/**
+ * Converts an LSB slot to a channel value and bit position
+ *
+ * @param slot - The slot number, counted from the first pixel after the mode
+ * @returns The index of the channel value in the RGBA data and the bit position
+ */
+function lsbSlotToPosition(slot: number): { index: number; shift: number } {
+	const perPixel = LSB_MODE.channels.length * LSB_MODE.bitDepth;
+	const pixel = LSB_MODE_PIXELS + Math.floor(slot / perPixel);
+	const offset = slot % perPixel;
+
+	return {
+		index: pixel * 4 + LSB_MODE.channels[offset % LSB_MODE.channels.length],
+		shift: Math.floor(offset / LSB_MODE.channels.length),
+	};
+}
+
+/**
+ * Converts bytes to a binary string, as before
+ *
+ * @param bytes - The bytes to convert
+ * @returns A binary string representation of the bytes, MSB first
+ */
+function bytesToBinary(bytes: Uint8Array): string {
+	let binary = "";
+	for (let i = 0; i < bytes.length; i++) {
+		binary += bytes[i].toString(2).padStart(8, "0");
+	}
+	return binary;
+}
+
+/**
+ * Converts a binary string back to bytes, as before
+ *
+ * @param binary - The binary string to convert
+ * @returns The bytes represented by the binary string
+ */
+function binaryToBytes(binary: string): Uint8Array {
+	const bytes = new Uint8Array(Math.floor(binary.length / 8));
+	for (let i = 0; i < bytes.length; i++) {
+		bytes[i] = Number.parseInt(binary.substr(i * 8, 8), 2);
+	}
+	return bytes;
+}
+
+/**
+ * Hides a file in the pixels of an image with the binary-string pipeline
+ *
+ * @param cover - The cover image
+ * @param file - The file to hide
+ * @returns The pixels of the stego image
+ */
+function baselineEncode(cover: RawImage, file: HiddenFile): RawImage {
+	const data = cover.data.slice();
+	const container = writeContainer(
+		writeFileEntry(file),
+		LSB_TECHNIQUE_ID,
+		FLAG_FILE,
+	);
+
+	const modeBits = LSB_MODE_BYTE.toString(2).padStart(8, "0");
+	for (let bitIndex = 0; bitIndex < modeBits.length; bitIndex++) {
+		const i = slotToIndex(bitIndex);
+		data[i] = (data[i] & 0xfe) | Number.parseInt(modeBits[bitIndex]);
+	}
+
+	const binaryMessage = bytesToBinary(container);
+	for (let bitIndex = 0; bitIndex < binaryMessage.length; bitIndex++) {
+		const { index, shift } = lsbSlotToPosition(bitIndex);
+		data[index] =
+			(data[index] & ~(1 << shift)) |
+			(Number.parseInt(binaryMessage[bitIndex]) << shift);
+	}
+
+	return { width: cover.width, height: cover.height, data };
+}
+
+/**
+ * Extracts a file from the pixels of an image with the binary-string pipeline
+ *
+ * @param image - The pixels of the stego image
+ * @returns The hidden file
+ * @throws NoPayloadError if the image holds no payload in the default LSB mode
+ */
+function baselineDecode(image: RawImage): HiddenFile {
+	const { data } = image;
+	const slotCount =
+		Math.max(data.length / 4 - LSB_MODE_PIXELS, 0) *
+		LSB_MODE.channels.length *
+		LSB_MODE.bitDepth;
+
+	const extract = (bitCount: number): Uint8Array => {
+		let modeBits = "";
+		for (let bitIndex = 0; bitIndex < 8; bitIndex++) {
+			modeBits += (data[slotToIndex(bitIndex)] & 0x01).toString();
+		}
+		if (Number.parseInt(modeBits, 2) !== LSB_MODE_BYTE) {
+			throw new NoPayloadError();
+		}
+
+		let binary = "";
+		const maxBits = Math.min(slotCount, bitCount);
+		for (let bitIndex = 0; bitIndex < maxBits; bitIndex++) {
+			const { index, shift } = lsbSlotToPosition(bitIndex);
+			binary += ((data[index] >> shift) & 0x01).toString();
+		}
+		return binaryToBytes(binary);
+	};
+
+	const { payload } = readContainer(
+		(byteCount) => extract(byteCount * 8),
+		LSB_TECHNIQUE_ID,
+	);
+	return readFileEntry(payload);
+}
+
+/**
+ * Extracts a file from the pixels of an image with the library
+ *
+ * @param image - The pixels of the stego image
+ * @returns A Promise that resolves to the hidden file, or null if a message was found instead
+ */
+async function libraryDecode(image: RawImage): Promise<HiddenFile | null> {
+	const decoded = await decodePixels(image, "lsb");
+	return decoded.kind === "file" ? decoded.file : null;
+}
+
+/**
+ * Runs a task several times and keeps the fastest run
+ *
+ * @param task - The task to time
+ * @returns A Promise that resolves to the fastest time in milliseconds and the last result
+ */
+async function measure<T>(
+	task: () => T | Promise<T>,
+): Promise<{ time: number; result: T }> {
+	let time = Infinity;
+	let result!: T;
+	for (let run = 0; run < RUNS; run++) {
+		const start = performance.now();
+		result = await task();
+		time = Math.min(time, performance.now() - start);
+	}
+	return { time, result };
+}
+
+/**
+ * Checks whether a file was read back with the same contents
+ *
+ * @param file - The file that was read back, if any
+ * @param expected - The file that was hidden
+ * @returns True if the names and contents match
+ */
+function sameFile(file: HiddenFile | null, expected: HiddenFile): boolean {
+	return (
+		file !== null &&
+		file.name === expected.name &&
+		file.data.length === expected.data.length &&
+		file.data.every((byte, i) => byte === expected.data[i])
+	);
+}
+
+/**
+ * Formats a duration for the report
+ *
+ * @param time - The duration in milliseconds
+ * @returns The formatted duration
+ */
+function formatTime(time: number): string {
+	return `${time.toFixed(0)} ms`.padStart(10);
+}
+
+/**
+ * Runs the benchmark and prints the report
+ *
+ * @returns A Promise that resolves to the process exit code
+ */
+async function main(): Promise<number> {
+	const cover = createCover();
+	const file = createFile();
+	console.log(
+		`${WIDTH}x${HEIGHT} image, ${PAYLOAD_SIZE.toLocaleString()} byte file, LSB without a key, fastest of ${RUNS} runs\n`,
+	);
+
+	const baselineEncoded = await measure(() => baselineEncode(cover, file));
+	const baselineDecoded = await measure(() =>
+		baselineDecode(baselineEncoded.result),
+	);
+	const libraryEncoded = await measure(() => encodePixels(cover, file, "lsb"));
+	const libraryDecoded = await measure(() =>
+		libraryDecode(libraryEncoded.result),
+	);
+
+	console.log(
+		`${"".padEnd(8)}${"Strings".padStart(10)}${"Library".padStart(10)}${"Speedup".padStart(9)}`,
+	);
+	for (const [name, baseline, library] of [
+		["Encode", baselineEncoded.time, libraryEncoded.time],
+		["Decode", baselineDecoded.time, libraryDecoded.time],
+	] as const) {
+		console.log(
+			`${name.padEnd(8)}${formatTime(baseline)}${formatTime(library)}${`${(baseline / library).toFixed(1)}x`.padStart(9)}`,
+		);
+	}
+
+	const failures = [
+		!sameFile(baselineDecoded.result, file) &&
+			"the binary-string pipeline did not read its own payload back",
+		!sameFile(libraryDecoded.result, file) &&
+			"the library did not read its own payload back",
+		!sameFile(await libraryDecode(baselineEncoded.result), file) &&
+			"the library did not read the binary-string pipeline's payload",
+		!sameFile(baselineDecode(libraryEncoded.result), file) &&
+			"the binary-string pipeline did not read the library's payload",
+		libraryEncoded.time >= baselineEncoded.time &&
+			"encoding with the library is not faster",
+		libraryDecoded.time >= baselineDecoded.time &&
+			"decoding with the library is not faster",
+	].filter((failure): failure is string => typeof failure === "string");
+
+	for (const failure of failures) {
+		console.error(`FAIL: ${failure}`);
+	}
+	return failures.length > 0 ? 1 : 0;
+}
+
+main().then((code) => {
+	process.exitCode = code;
+});